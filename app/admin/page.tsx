@@ -14,7 +14,11 @@ import {
   Timestamp,
   updateDoc,
 } from "firebase/firestore";
+import NotificationBell from "@/components/NotificationBell";
 import { auth, db } from "@/lib/firebase";
+import { requestNotification } from "@/lib/notifications";
+import { formatTimestampLocal } from "@/lib/timezones";
+import { useHashTarget } from "@/lib/useHashTarget";
 
 type DashboardStatus = "checking" | "ready" | "error";
 
@@ -60,15 +64,6 @@ const reviewStatuses = [
   { value: "rejected", label: "Reject" },
 ];
 
-function formatTimestamp(value?: Timestamp): string {
-  if (!value) return "-";
-  try {
-    return value.toDate().toLocaleString();
-  } catch {
-    return "-";
-  }
-}
-
 export default function AdminDashboardPage() {
   const router = useRouter();
   const [dashboardStatus, setDashboardStatus] = useState<DashboardStatus>("checking");
@@ -132,6 +127,8 @@ export default function AdminDashboardPage() {
     return () => unsubscribe();
   }, [dashboardStatus]);
 
+  useHashTarget(applications.length > 0);
+
   const pendingCount = useMemo(
     () => applications.filter((item) => item.status === "manual_review_pending").length,
     [applications]
@@ -149,6 +146,7 @@ export default function AdminDashboardPage() {
         reviewedAt: serverTimestamp(),
         reviewedBy: adminUid,
       });
+      void requestNotification("application", applicationId);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Status update failed.");
     } finally {
@@ -181,15 +179,30 @@ export default function AdminDashboardPage() {
               {pendingCount} pending review • {applications.length} total submissions
             </p>
           </div>
-          <button
-            onClick={async () => {
-              await auth.signOut();
-              router.push("/admin/sign-in");
-            }}
-            className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
-          >
-            Sign out
-          </button>
+          <div className="flex flex-wrap gap-3">
+            {adminUid ? <NotificationBell uid={adminUid} /> : null}
+            <button
+              onClick={() => router.push("/admin/services")}
+              className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+            >
+              Service catalog
+            </button>
+            <button
+              onClick={() => router.push("/admin/reviews")}
+              className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+            >
+              Reported reviews
+            </button>
+            <button
+              onClick={async () => {
+                await auth.signOut();
+                router.push("/admin/sign-in");
+              }}
+              className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+            >
+              Sign out
+            </button>
+          </div>
         </header>
 
         {error ? (
@@ -212,7 +225,8 @@ export default function AdminDashboardPage() {
             return (
               <article
                 key={application.id}
-                className="rounded-[28px] border border-white/70 bg-white/70 p-6 shadow-[0_16px_40px_rgba(15,42,34,0.08)]"
+                id={`application-${application.id}`}
+                className="scroll-mt-24 target:ring-2 target:ring-[var(--prime-copper)] rounded-[28px] border border-white/70 bg-white/70 p-6 shadow-[0_16px_40px_rgba(15,42,34,0.08)]"
               >
                 <div className="flex flex-wrap items-start justify-between gap-4">
                   <div>
@@ -232,10 +246,10 @@ export default function AdminDashboardPage() {
                       {application.status || "unknown"}
                     </p>
                     <p className="mt-2 text-xs text-[color:rgba(20,21,22,0.55)]">
-                      Submitted: {formatTimestamp(application.createdAt)}
+                      Submitted: {formatTimestampLocal(application.createdAt)}
                     </p>
                     <p className="text-xs text-[color:rgba(20,21,22,0.55)]">
-                      Reviewed: {formatTimestamp(application.reviewedAt)}
+                      Reviewed: {formatTimestampLocal(application.reviewedAt)}
                     </p>
                   </div>
                 </div>
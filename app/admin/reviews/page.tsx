@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { onAuthStateChanged } from "firebase/auth";
+import { doc, getDoc } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import {
+  moderateReview,
+  parseReview,
+  REVIEW_CRITERIA,
+  reviewCriterionLabels,
+  subscribeOpenReports,
+  type Review,
+  type ReviewReport,
+} from "@/lib/reviews";
+import { formatTimestampLocal } from "@/lib/timezones";
+
+type DashboardStatus = "checking" | "ready" | "error";
+
+type ReportedReview = {
+  review: Review;
+  providerName: string;
+};
+
+export default function AdminReviewsPage() {
+  const router = useRouter();
+  const [dashboardStatus, setDashboardStatus] = useState<DashboardStatus>("checking");
+  const [adminUid, setAdminUid] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reports, setReports] = useState<ReviewReport[]>([]);
+  // null marks a review that was deleted after being reported.
+  const [reviewsById, setReviewsById] = useState<Record<string, ReportedReview | null>>({});
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        router.replace("/admin/sign-in");
+        return;
+      }
+
+      try {
+        const userDoc = await getDoc(doc(db, "users", user.uid));
+        const role = userDoc.exists() ? userDoc.data().role : null;
+
+        if (role !== "admin") {
+          router.replace("/admin/sign-in");
+          return;
+        }
+
+        setAdminUid(user.uid);
+        setDashboardStatus("ready");
+      } catch (err) {
+        setDashboardStatus("error");
+        setError(err instanceof Error ? err.message : "Failed to load admin profile.");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [router]);
+
+  useEffect(() => {
+    if (dashboardStatus !== "ready") return;
+    return subscribeOpenReports(setReports);
+  }, [dashboardStatus]);
+
+  // Several people can flag the same review; the queue shows it once with
+  // every reason underneath.
+  const queue = useMemo(() => {
+    const grouped = new Map<string, ReviewReport[]>();
+    reports.forEach((report) => {
+      grouped.set(report.reviewId, [...(grouped.get(report.reviewId) || []), report]);
+    });
+    return Array.from(grouped, ([reviewId, reviewReports]) => ({ reviewId, reviewReports }));
+  }, [reports]);
+
+  useEffect(() => {
+    const missing = queue
+      .map((item) => item.reviewId)
+      .filter((reviewId) => !(reviewId in reviewsById));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      missing.map(async (reviewId) => {
+        const reviewSnap = await getDoc(doc(db, "reviews", reviewId));
+        if (!reviewSnap.exists()) return [reviewId, null] as const;
+        const review = parseReview(reviewSnap.id, reviewSnap.data());
+        const providerSnap = await getDoc(doc(db, "providerProfiles", review.providerUid));
+        return [
+          reviewId,
+          { review, providerName: String(providerSnap.data()?.displayName || "Provider") },
+        ] as const;
+      })
+    )
+      .then((loaded) => {
+        if (cancelled) return;
+        setReviewsById((prev) => ({ ...prev, ...Object.fromEntries(loaded) }));
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unable to load reported reviews.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queue, reviewsById]);
+
+  const moderate = async (reviewId: string, hide: boolean) => {
+    if (!adminUid) return;
+
+    setActionId(reviewId);
+    setError(null);
+    try {
+      await moderateReview(reviewId, adminUid, hide);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update this review.");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  if (dashboardStatus === "checking") {
+    return (
+      <div className="min-h-screen bg-[var(--background)] px-6 py-16 text-[var(--prime-ink)]">
+        <p className="mx-auto max-w-6xl text-sm text-[color:rgba(20,21,22,0.7)]">
+          Checking admin access...
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--prime-ink)]">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
+              Admin dashboard
+            </p>
+            <h1 className="font-serif text-3xl sm:text-4xl">Reported reviews</h1>
+            <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
+              {queue.length} reviews waiting • {reports.length} open reports
+            </p>
+          </div>
+          <button
+            onClick={() => router.push("/admin")}
+            className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+          >
+            Applications
+          </button>
+        </header>
+
+        {error ? (
+          <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </p>
+        ) : null}
+
+        {queue.length === 0 ? (
+          <p className="text-sm text-[color:rgba(20,21,22,0.7)]">No reports to review.</p>
+        ) : null}
+
+        <section className="space-y-4">
+          {queue.map(({ reviewId, reviewReports }) => {
+            const item = reviewsById[reviewId];
+            return (
+              <article
+                key={reviewId}
+                className="rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]"
+              >
+                {item ? (
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-lg font-semibold">
+                        {item.review.customerName} on {item.providerName}
+                      </p>
+                      <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-copper)]">
+                        {item.review.rating}/5 • {item.review.service || "Service"}
+                      </p>
+                    </div>
+                    <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                      {formatTimestampLocal(item.review.createdAt || undefined)} •{" "}
+                      {REVIEW_CRITERIA.filter((criterion) => item.review.scores[criterion])
+                        .map(
+                          (criterion) =>
+                            `${reviewCriterionLabels[criterion]} ${item.review.scores[criterion]}/5`
+                        )
+                        .join(", ")}
+                    </p>
+                    <p className="whitespace-pre-line text-sm">
+                      {item.review.comment || "No written review."}
+                    </p>
+                    {item.review.reply ? (
+                      <p className="whitespace-pre-line border-l-2 border-[var(--prime-forest)] pl-3 text-sm">
+                        <span className="font-semibold">Provider reply:</span>{" "}
+                        {item.review.reply.text}
+                      </p>
+                    ) : null}
+                  </div>
+                ) : (
+                  <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
+                    {item === null ? "This review no longer exists." : "Loading review..."}
+                  </p>
+                )}
+
+                <ul className="mt-4 space-y-2 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+                  {reviewReports.map((report) => (
+                    <li key={report.id}>
+                      <span className="font-semibold capitalize">{report.reporterRole}:</span>{" "}
+                      {report.reason}
+                      <span className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                        {" "}
+                        • {formatTimestampLocal(report.createdAt || undefined)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="mt-4 flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={() => moderate(reviewId, true)}
+                    disabled={actionId === reviewId}
+                    className="rounded-full bg-red-700 px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    Hide review
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moderate(reviewId, false)}
+                    disabled={actionId === reviewId}
+                    className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    Keep review
+                  </button>
+                </div>
+              </article>
+            );
+          })}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { onAuthStateChanged } from "firebase/auth";
+import {
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+  type WriteBatch,
+} from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import {
+  defaultServiceCatalog,
+  parseServiceCatalogEntry,
+  SERVICE_CATALOG_COLLECTION,
+  slugifyServiceTitle,
+  type ServiceCatalogEntry,
+} from "@/lib/services";
+
+type DashboardStatus = "checking" | "ready" | "error";
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function setDefaults(batch: WriteBatch) {
+  defaultServiceCatalog.forEach((entry) => {
+    const { slug, ...data } = entry;
+    batch.set(doc(db, SERVICE_CATALOG_COLLECTION, slug), {
+      ...data,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
+
+export default function AdminServicesPage() {
+  const router = useRouter();
+  const [dashboardStatus, setDashboardStatus] = useState<DashboardStatus>("checking");
+  const [error, setError] = useState<string | null>(null);
+  const [services, setServices] = useState<ServiceCatalogEntry[]>([]);
+  const [catalogLoaded, setCatalogLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        router.replace("/admin/sign-in");
+        return;
+      }
+
+      try {
+        const userDoc = await getDoc(doc(db, "users", user.uid));
+        const role = userDoc.exists() ? userDoc.data().role : null;
+
+        if (role !== "admin") {
+          router.replace("/admin/sign-in");
+          return;
+        }
+
+        setDashboardStatus("ready");
+      } catch (err) {
+        setDashboardStatus("error");
+        setError(err instanceof Error ? err.message : "Failed to load admin profile.");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [router]);
+
+  useEffect(() => {
+    if (dashboardStatus !== "ready") return;
+
+    const unsubscribe = onSnapshot(
+      collection(db, SERVICE_CATALOG_COLLECTION),
+      (snapshot) => {
+        const nextServices = snapshot.docs
+          .map((docSnap) => parseServiceCatalogEntry(docSnap.id, docSnap.data()))
+          .sort((a, b) => a.sortOrder - b.sortOrder);
+        setServices(nextServices);
+        setCatalogLoaded(true);
+      },
+      (err) => {
+        setError(err.message || "Failed to load service catalog.");
+      }
+    );
+
+    return () => unsubscribe();
+  }, [dashboardStatus]);
+
+  const publishDefaults = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const batch = writeBatch(db);
+      setDefaults(batch);
+      await batch.commit();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to publish default catalog.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const title = String(formData.get("title") || "").trim();
+    const description = String(formData.get("description") || "").trim();
+    const slug = slugifyServiceTitle(title);
+
+    if (!title || !description) {
+      setError("Title and description are required.");
+      return;
+    }
+    // Customers see the defaults until the catalog is published, so the first
+    // service added publishes them alongside it rather than replacing them.
+    const publishing = services.length === 0;
+    const current = publishing ? defaultServiceCatalog : services;
+    if (!slug || current.some((entry) => entry.slug === slug)) {
+      setError("A service with this title already exists.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const nextSortOrder = current.reduce(
+        (max, entry) => Math.max(max, entry.sortOrder + 1),
+        0
+      );
+      const batch = writeBatch(db);
+      if (publishing) {
+        setDefaults(batch);
+      }
+      batch.set(doc(db, SERVICE_CATALOG_COLLECTION, slug), {
+        title,
+        description,
+        icon: String(formData.get("icon") || "").trim(),
+        tag: String(formData.get("tag") || "").trim(),
+        typicalPricing: String(formData.get("typicalPricing") || "").trim(),
+        highlights: splitList(String(formData.get("highlights") || "")),
+        requiredCertifications: splitList(
+          String(formData.get("requiredCertifications") || "")
+        ),
+        quoteRecommended: formData.get("quoteRecommended") === "on",
+        active: true,
+        sortOrder: nextSortOrder,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      await batch.commit();
+      form.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to add service.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (entry: ServiceCatalogEntry, active: boolean) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await updateDoc(doc(db, SERVICE_CATALOG_COLLECTION, entry.slug), {
+        active,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update service.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const move = async (index: number, direction: -1 | 1) => {
+    const targetIndex = index + direction;
+    if (targetIndex < 0 || targetIndex >= services.length) return;
+
+    const reordered = [...services];
+    [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const batch = writeBatch(db);
+      reordered.forEach((entry, sortOrder) => {
+        batch.update(doc(db, SERVICE_CATALOG_COLLECTION, entry.slug), {
+          sortOrder,
+          updatedAt: serverTimestamp(),
+        });
+      });
+      await batch.commit();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to reorder services.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (dashboardStatus === "checking") {
+    return (
+      <div className="min-h-screen bg-[var(--background)] px-6 py-16 text-[var(--prime-ink)]">
+        <p className="mx-auto max-w-6xl text-sm text-[color:rgba(20,21,22,0.7)]">
+          Checking admin access...
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--prime-ink)]">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
+              Admin dashboard
+            </p>
+            <h1 className="font-serif text-3xl sm:text-4xl">Service catalog</h1>
+            <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
+              {services.filter((entry) => entry.active).length} active •{" "}
+              {services.length} total services
+            </p>
+          </div>
+          <button
+            onClick={() => router.push("/admin")}
+            className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+          >
+            Applications
+          </button>
+        </header>
+
+        {error ? (
+          <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </p>
+        ) : null}
+
+        {catalogLoaded && services.length === 0 ? (
+          <div className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <p>
+              The catalog has not been published yet. Customers currently see the
+              built-in default services. Adding a service publishes them too.
+            </p>
+            <button
+              onClick={publishDefaults}
+              disabled={saving}
+              className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+            >
+              Publish default catalog
+            </button>
+          </div>
+        ) : null}
+
+        <section className="space-y-4">
+          {services.map((entry, index) => (
+            <article
+              key={entry.slug}
+              className={`rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)] ${
+                entry.active ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="text-lg font-semibold">
+                    {entry.icon ? `${entry.icon} ` : ""}
+                    {entry.title}
+                  </p>
+                  <p className="text-xs uppercase tracking-[0.14em] text-[var(--prime-copper)]">
+                    /services/{entry.slug} • {entry.active ? "active" : "retired"}
+                  </p>
+                  <p className="mt-2 text-sm text-[color:rgba(20,21,22,0.7)]">
+                    {entry.description}
+                  </p>
+                  {entry.requiredCertifications.length > 0 ? (
+                    <p className="mt-1 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Requires: {entry.requiredCertifications.join(", ")}
+                    </p>
+                  ) : null}
+                  {entry.quoteRecommended ? (
+                    <p className="mt-1 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Customers request a quote first
+                    </p>
+                  ) : null}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={saving || index === 0}
+                    className="rounded-full border border-[var(--prime-forest)] px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.12em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Up
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={saving || index === services.length - 1}
+                    className="rounded-full border border-[var(--prime-forest)] px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.12em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Down
+                  </button>
+                  {entry.active ? (
+                    <button
+                      onClick={() => setActive(entry, false)}
+                      disabled={saving}
+                      className="rounded-full border border-red-500 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.12em] text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Retire
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setActive(entry, true)}
+                      disabled={saving}
+                      className="rounded-full bg-[var(--prime-forest)] px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.12em] text-white disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+            </article>
+          ))}
+        </section>
+
+        <section className="rounded-[28px] border border-white/70 bg-white/70 p-6 shadow-[0_16px_40px_rgba(15,42,34,0.08)]">
+          <h2 className="text-xl font-semibold">Add a service</h2>
+          <form className="mt-5 grid gap-4 md:grid-cols-2" onSubmit={handleAdd}>
+            <label className="grid gap-2 text-sm font-medium">
+              Title
+              <input
+                name="title"
+                placeholder="Pest Control"
+                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+              />
+            </label>
+            <label className="grid gap-2 text-sm font-medium">
+              Icon (optional)
+              <input
+                name="icon"
+                placeholder="🐜"
+                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+              />
+            </label>
+            <label className="grid gap-2 text-sm font-medium md:col-span-2">
+              Description
+              <textarea
+                name="description"
+                rows={3}
+                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+              />
+            </label>
+            <label className="grid gap-2 text-sm font-medium">
+              Tag
+              <input
+                name="tag"
+                placeholder="Same-day slots"
+                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+              />
+            </label>
+            <label className="grid gap-2 text-sm font-medium">
+              Typical pricing
+              <input
+                name="typicalPricing"
+                placeholder="From $40/hr"
+                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+              />
+            </label>
+            <label className="grid gap-2 text-sm font-medium">
+              Highlights (comma separated)
+              <input
+                name="highlights"
+                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+              />
+            </label>
+            <label className="grid gap-2 text-sm font-medium">
+              Required certifications (comma separated)
+              <input
+                name="requiredCertifications"
+                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+              />
+            </label>
+            <label className="flex items-center gap-3 text-sm font-medium">
+              <input
+                type="checkbox"
+                name="quoteRecommended"
+                className="h-4 w-4 accent-[var(--prime-forest)]"
+              />
+              Default to quote requests (jobs that can&apos;t be priced up front)
+            </label>
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-fit rounded-full bg-[var(--prime-forest)] px-6 py-3 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+            >
+              {saving ? "Saving..." : "Add service"}
+            </button>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { buildCalendar, bookingToIcsEvent, type IcsEvent } from "@/lib/ics";
+import { adminDb } from "@/lib/server/firebaseAdmin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Calendar apps poll this URL without signing in, so the secret token in the
+// path is the only credential.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const token = (await params).token.replace(/\.ics$/, "");
+
+  try {
+    const feedSnap = await adminDb.collection("calendarFeeds").doc(token).get();
+    const uid = feedSnap.data()?.uid;
+    if (!uid) {
+      return NextResponse.json({ error: "Calendar feed not found." }, { status: 404 });
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const bookings = adminDb.collection("bookings").where("status", "==", "accepted");
+    const [asProvider, asCustomer] = await Promise.all([
+      bookings.where("providerUid", "==", uid).get(),
+      bookings.where("customerUid", "==", uid).get(),
+    ]);
+
+    const events: IcsEvent[] = [];
+    for (const [role, snapshot] of [
+      ["provider", asProvider],
+      ["customer", asCustomer],
+    ] as const) {
+      for (const docSnap of snapshot.docs) {
+        const data = docSnap.data();
+        const event = bookingToIcsEvent({ id: docSnap.id, ...data }, role, appUrl);
+        if (event) {
+          events.push({ ...event, updatedAt: data.updatedAt?.toDate?.() });
+        }
+      }
+    }
+
+    return new NextResponse(buildCalendar("Prime Care bookings", events), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="prime-care.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unable to load this calendar." },
+      { status: 500 }
+    );
+  }
+}
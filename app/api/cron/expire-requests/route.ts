@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { expireOverdueRequests } from "@/lib/server/expireRequests";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Called by the scheduler (see vercel.json) with CRON_SECRET as a bearer
+// token, so nobody else can trigger it.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!secret || token !== secret) {
+    return NextResponse.json({ error: "Not allowed." }, { status: 401 });
+  }
+
+  try {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    return NextResponse.json(await expireOverdueRequests(appUrl));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unable to expire requests." },
+      { status: 500 }
+    );
+  }
+}
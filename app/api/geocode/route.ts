@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { adminAuth } from "@/lib/server/firebaseAdmin";
+import { geocodeAddress } from "@/lib/server/geocode";
+
+export const runtime = "nodejs";
+
+const MIN_QUERY_LENGTH = 3;
+const MAX_QUERY_LENGTH = 200;
+
+// Proxies address searches so the geocoder's terms (user agent, country
+// filter, request rate) are applied in one place and results are cached.
+// Only signed-in users can search, so the proxy isn't open to the internet.
+export async function GET(request: NextRequest) {
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    return NextResponse.json({ error: "Sign in to search for an address." }, { status: 401 });
+  }
+
+  try {
+    await adminAuth.verifyIdToken(token);
+  } catch {
+    return NextResponse.json({ error: "Your session has expired." }, { status: 401 });
+  }
+
+  const query = (request.nextUrl.searchParams.get("q") || "").trim();
+  if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `Enter between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await geocodeAddress(query);
+    return NextResponse.json(
+      { results },
+      { headers: { "Cache-Control": "private, max-age=86400" } }
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unable to look up that address." },
+      { status: 502 }
+    );
+  }
+}
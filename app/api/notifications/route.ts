@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { NotificationKind } from "@/lib/notifications";
+import { adminAuth } from "@/lib/server/firebaseAdmin";
+import { notifyChange } from "@/lib/server/notify";
+
+export const runtime = "nodejs";
+
+const KINDS: NotificationKind[] = ["booking", "series", "message", "review", "application"];
+
+export async function POST(request: NextRequest) {
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    return NextResponse.json({ error: "Sign in to send notifications." }, { status: 401 });
+  }
+
+  let callerUid: string;
+  try {
+    callerUid = (await adminAuth.verifyIdToken(token)).uid;
+  } catch {
+    return NextResponse.json({ error: "Your session has expired." }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const kind = KINDS.find((item) => item === body?.kind);
+  const id = typeof body?.id === "string" ? body.id : "";
+  if (!kind || !id) {
+    return NextResponse.json({ error: "Unknown notification." }, { status: 400 });
+  }
+
+  try {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const sent = await notifyChange(kind, id, callerUid, appUrl);
+    return NextResponse.json({ sent });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unable to send notifications." },
+      { status: 400 }
+    );
+  }
+}
@@ -4,45 +4,132 @@ import { useEffect, useMemo, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { onAuthStateChanged, type User } from "firebase/auth";
 import {
-  addDoc,
   collection,
   doc,
   getDoc,
   getDocs,
   onSnapshot,
   query,
-  runTransaction,
-  serverTimestamp,
   Timestamp,
   where,
 } from "firebase/firestore";
+import AddressBook from "@/components/AddressBook";
+import AddressPicker from "@/components/AddressPicker";
+import AttachmentList from "@/components/AttachmentList";
+import CalendarFeedPanel from "@/components/CalendarFeedPanel";
+import MessageThread from "@/components/MessageThread";
+import NotificationBell from "@/components/NotificationBell";
+import NotificationSettings from "@/components/NotificationSettings";
+import SlotPicker from "@/components/SlotPicker";
+import QuoteSummary from "./QuoteSummary";
+import ReviewForm from "./ReviewForm";
+import { loadAddressBook } from "@/lib/addressBook";
+import {
+  accessDetails,
+  formatAddressLine,
+  parseSavedAddress,
+  toStructuredAddress,
+  type SavedAddress,
+} from "@/lib/addresses";
+import {
+  computeAvailability,
+  formatDateKey,
+  isSlotOpen,
+  loadBookedSlots,
+  mergeAvailability,
+  type BookedSlot,
+  type DayAvailability,
+} from "@/lib/availability";
+import {
+  cancelSeries,
+  createBookingSeries,
+  newSeriesId,
+  skipOccurrence,
+} from "@/lib/bookingSeries";
+import {
+  acceptProposedTime,
+  cancelBooking,
+  CANCELLATION_CUTOFF_HOURS,
+  createBookingRequest,
+  isPastCancellationCutoff,
+  newBookingId,
+  rejectProposedTimes,
+  rescheduleBooking,
+  RESENDABLE_STATUSES,
+  sendToAnotherProvider,
+  SLOT_TAKEN_MESSAGE,
+  type BookingMode,
+} from "@/lib/bookings";
+import {
+  bookingStatusLabels,
+  toBookingStatus,
+  type BookingStatus,
+} from "@/lib/bookingStatus";
+import { createBroadcastRequest, openCandidates } from "@/lib/broadcastRequests";
+import { downloadBookingIcs } from "@/lib/calendarFeeds";
 import { auth, db } from "@/lib/firebase";
-
-const services = [
-  "Home Cleaning",
-  "Plumbing & Repairs",
-  "Electrical Work",
-  "Caregiving",
-  "Handyman",
-  "Outdoor Care",
-];
+import {
+  coverageFor,
+  formatDistance,
+  parseAddress,
+  type StructuredAddress,
+} from "@/lib/geo";
+import { unreadCount, type MessageRole } from "@/lib/messages";
+import {
+  isBookable,
+  matchProviders,
+  parseProviderProfile,
+  sortProviders,
+  type ProviderProfile,
+} from "@/lib/providers";
+import {
+  describePricing,
+  DURATION_OPTIONS,
+  formatPrice,
+  priceForService,
+  type PriceBreakdown,
+} from "@/lib/pricing";
+import { acceptQuote, rejectQuote } from "@/lib/quotes";
+import { submitReview, type ReviewInput } from "@/lib/reviews";
+import { AWAITING_PROVIDER_STATUSES, respondByFor } from "@/lib/requestExpiry";
+import {
+  defaultRecurrenceRule,
+  describeRecurrence,
+  expandRecurrence,
+  MAX_OCCURRENCES,
+  recurrenceLabels,
+  validateRecurrence,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import { WEEKDAY_LABELS } from "@/lib/schedule";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  deletePrivateFiles,
+  MAX_BOOKING_PHOTOS,
+  uploadPrivateFile,
+  validateUpload,
+  type PrivateFile,
+} from "@/lib/uploads";
+import { DEFAULT_TIME_ZONE, formatBookingTime, formatInTimeZone } from "@/lib/timezones";
+import { useHashTarget } from "@/lib/useHashTarget";
+import { useServiceCatalog } from "@/lib/useServiceCatalog";
 
 type Step = 1 | 2 | 3 | 4 | 5;
 
-type ProfileProvider = {
-  id: string;
-  displayName: string;
-  services: string[];
-  rating: number;
-  reviewCount: number;
-  bio: string;
-  acceptingBookings: boolean;
-  isOnline: boolean;
-  isApproved: boolean;
-};
+function initialStep(service: string | null, provider: string | null, step: string | null): Step {
+  if (!service) return 1;
+  if (!provider) return 2;
+  return step === "3" ? 3 : 2;
+}
 
 type Status = "idle" | "loading" | "success" | "error";
 
+type ManageMode = {
+  bookingId: string;
+  action: "cancel" | "cancelSeries" | "reschedule" | "resend";
+};
+
 type CustomerBooking = {
   id: string;
   providerUid?: string;
@@ -50,29 +137,80 @@ type CustomerBooking = {
   service?: string;
   date?: string;
   time?: string;
-  status?: string;
+  status?: BookingStatus;
   address?: string;
+  serviceAddress?: unknown;
+  location?: unknown;
+  notes?: string;
+  estimatedHours?: number;
+  startAt?: Timestamp;
+  timeZone?: string;
+  respondBy?: Timestamp;
+  resentToBookingId?: string;
+  broadcast?: boolean;
+  candidateProviderUids?: string[];
   customerRating?: number;
+  cancellationReason?: string;
+  cancelledBy?: string;
+  proposedTimes?: BookedSlot[];
+  proposalNote?: string;
+  seriesId?: string;
+  seriesSummary?: string;
+  occurrenceIndex?: number;
+  occurrenceCount?: number;
+  price?: PriceBreakdown | null;
+  mode?: BookingMode;
+  quote?: unknown;
+  attachments?: PrivateFile[];
+  unread?: Partial<Record<MessageRole, number>>;
   createdAt?: Timestamp;
 };
 
+function respondByLabel(booking: CustomerBooking): string | null {
+  if (!AWAITING_PROVIDER_STATUSES.includes(toBookingStatus(booking.status))) return null;
+  const deadline = respondByFor(booking);
+  return deadline ? formatInTimeZone(deadline, booking.timeZone || DEFAULT_TIME_ZONE) : null;
+}
+
 export default function BookClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const preselected = searchParams.get("service");
+  const preselectedProvider = searchParams.get("provider");
+  const { services, error: servicesError } = useServiceCatalog();
 
-  const [step, setStep] = useState<Step>(1);
+  const [step, setStep] = useState<Step>(() =>
+    initialStep(preselected, preselectedProvider, searchParams.get("step"))
+  );
   const [service, setService] = useState<string>(preselected || "");
-  const [selectedProviderId, setSelectedProviderId] = useState<string>("");
+  const [selectedProviderId, setSelectedProviderId] = useState<string>(
+    preselectedProvider || ""
+  );
+  // Offer the request to every provider free at the chosen time instead.
+  const [anyProvider, setAnyProvider] = useState(false);
   const [date, setDate] = useState<string>("");
   const [time, setTime] = useState<string>("");
-  const [address, setAddress] = useState<string>("");
+  const [serviceAddress, setServiceAddress] = useState<SavedAddress | null>(null);
+  const [addressBook, setAddressBook] = useState<SavedAddress[]>([]);
+  const [location, setLocation] = useState<StructuredAddress | null>(null);
   const [notes, setNotes] = useState<string>("");
+  const [estimatedHours, setEstimatedHours] = useState(2);
+  const [modeOverride, setModeOverride] = useState<BookingMode | null>(null);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [repeats, setRepeats] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(defaultRecurrenceRule);
 
-  const [providers, setProviders] = useState<ProfileProvider[]>([]);
+  const [providers, setProviders] = useState<ProviderProfile[]>([]);
   const [providersLoading, setProvidersLoading] = useState(false);
   const [providersError, setProvidersError] = useState<string | null>(null);
 
+  const [bookedSlots, setBookedSlots] = useState<BookedSlot[]>([]);
+  const [poolBookedSlots, setPoolBookedSlots] = useState<Record<string, BookedSlot[]>>({});
+  const [availabilityLoading, setAvailabilityLoading] = useState(false);
+  const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+  const [slotNotice, setSlotNotice] = useState<string | null>(null);
+
   const [sessionUser, setSessionUser] = useState<User | null>(null);
   const [sessionRole, setSessionRole] = useState<string | null>(null);
   const [checkingSession, setCheckingSession] = useState(true);
@@ -81,7 +219,22 @@ export default function BookClient() {
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [customerBookings, setCustomerBookings] = useState<CustomerBooking[]>([]);
   const [ratingError, setRatingError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionLoadingId, setActionLoadingId] = useState<string | null>(null);
   const [ratingLoadingId, setRatingLoadingId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const [manageMode, setManageMode] = useState<ManageMode | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [manageError, setManageError] = useState<string | null>(null);
+  const [manageLoading, setManageLoading] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [rescheduleAvailability, setRescheduleAvailability] = useState<DayAvailability[]>([]);
+  const [rescheduleDate, setRescheduleDate] = useState("");
+  const [rescheduleTime, setRescheduleTime] = useState("");
+  const [resendProviders, setResendProviders] = useState<ProviderProfile[]>([]);
+
+  useHashTarget(customerBookings.length > 0);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
@@ -124,35 +277,11 @@ export default function BookClient() {
         );
         const snapshot = await getDocs(providerProfilesQuery);
 
-        const nextProviders = snapshot.docs
-          .map((docSnap) => {
-            const data = docSnap.data();
-            const rating = Number(data.rating || 0);
-            const reviewCount = Number(data.reviewCount || 0);
-            return {
-              id: docSnap.id,
-              displayName: String(data.displayName || "Provider"),
-              services: Array.isArray(data.services)
-                ? data.services.filter((item: unknown) => typeof item === "string")
-                : [],
-              rating: Number.isFinite(rating) ? rating : 0,
-              reviewCount: Number.isFinite(reviewCount) ? reviewCount : 0,
-              bio: String(data.bio || ""),
-              acceptingBookings: Boolean(data.acceptingBookings),
-              isOnline: Boolean(data.isOnline),
-              isApproved: Boolean(data.isApproved),
-            } as ProfileProvider;
-          })
-          .filter(
-            (provider) =>
-              provider.isApproved && provider.isOnline && provider.acceptingBookings
-          )
-          .sort((a, b) => {
-            if (b.rating === a.rating) {
-              return b.reviewCount - a.reviewCount;
-            }
-            return b.rating - a.rating;
-          });
+        const nextProviders = sortProviders(
+          snapshot.docs
+            .map((docSnap) => parseProviderProfile(docSnap.id, docSnap.data()))
+            .filter(isBookable)
+        );
 
         setProviders(nextProviders);
 
@@ -175,6 +304,87 @@ export default function BookClient() {
     void loadProviders();
   }, [service, selectedProviderId]);
 
+  const selectedCatalogEntry = services.find((item) => item.title === service) || null;
+  const mode: BookingMode =
+    modeOverride || (selectedCatalogEntry?.quoteRecommended ? "quote" : "booking");
+  const isQuote = mode === "quote";
+  // Quotes need one provider to write them, so they are never broadcast.
+  const broadcasting = anyProvider && !isQuote;
+
+  const providerMatches = useMemo(
+    () => matchProviders(providers, location),
+    [providers, location]
+  );
+  const localProviders = useMemo(
+    () => providerMatches.map((match) => match.provider),
+    [providerMatches]
+  );
+
+  useEffect(() => {
+    if (!selectedProviderId || broadcasting) {
+      setBookedSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    setAvailabilityLoading(true);
+    setAvailabilityError(null);
+
+    loadBookedSlots(selectedProviderId)
+      .then((slots) => {
+        if (!cancelled) setBookedSlots(slots);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setAvailabilityError(
+          err instanceof Error ? err.message : "Unable to load provider availability."
+        );
+        setBookedSlots([]);
+      })
+      .finally(() => {
+        if (!cancelled) setAvailabilityLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProviderId, broadcasting, step]);
+
+  useEffect(() => {
+    if (!broadcasting || localProviders.length === 0) {
+      setPoolBookedSlots({});
+      return;
+    }
+
+    let cancelled = false;
+    setAvailabilityLoading(true);
+    setAvailabilityError(null);
+
+    Promise.all(localProviders.map((provider) => loadBookedSlots(provider.id)))
+      .then((slotLists) => {
+        if (cancelled) return;
+        setPoolBookedSlots(
+          Object.fromEntries(
+            localProviders.map((provider, index) => [provider.id, slotLists[index]])
+          )
+        );
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setAvailabilityError(
+          err instanceof Error ? err.message : "Unable to load provider availability."
+        );
+        setPoolBookedSlots({});
+      })
+      .finally(() => {
+        if (!cancelled) setAvailabilityLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [broadcasting, localProviders, step]);
+
   useEffect(() => {
     if (!sessionUser || sessionRole !== "customer") {
       setCustomerBookings([]);
@@ -203,18 +413,165 @@ export default function BookClient() {
     return () => unsubscribe();
   }, [sessionRole, sessionUser]);
 
+  useEffect(() => {
+    if (!sessionUser || sessionRole !== "customer") {
+      setAddressBook([]);
+      return;
+    }
+
+    let cancelled = false;
+    loadAddressBook(sessionUser.uid)
+      .then((addresses) => {
+        if (!cancelled) setAddressBook(addresses);
+      })
+      .catch(() => {
+        if (!cancelled) setAddressBook([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionRole, sessionUser]);
+
   const selectedProvider = useMemo(
     () => providers.find((provider) => provider.id === selectedProviderId) || null,
     [providers, selectedProviderId]
   );
 
+  // Slots are only offered where the whole estimated job fits.
+  const jobMinutes = estimatedHours * 60;
+
+  const selectedCoverage =
+    selectedProvider && location ? coverageFor(selectedProvider.serviceArea, location) : null;
+  const coversLocation = broadcasting || Boolean(selectedCoverage?.covered);
+
+  const availability = useMemo(() => {
+    if (broadcasting) {
+      return mergeAvailability(
+        localProviders.map((provider) =>
+          computeAvailability(provider.schedule, poolBookedSlots[provider.id] || [], {
+            minutes: jobMinutes,
+          })
+        )
+      );
+    }
+    return selectedProvider
+      ? computeAvailability(selectedProvider.schedule, bookedSlots, { minutes: jobMinutes })
+      : [];
+  }, [broadcasting, localProviders, poolBookedSlots, selectedProvider, bookedSlots, jobMinutes]);
+
+  const candidates = useMemo(
+    () =>
+      broadcasting && date && time
+        ? openCandidates(localProviders, poolBookedSlots, date, time, jobMinutes)
+        : [],
+    [broadcasting, localProviders, poolBookedSlots, date, time, jobMinutes]
+  );
+
+  // Broadcast slots are shown on the first provider's clock; providers in one
+  // area share a zone in practice.
+  const slotTimeZone = broadcasting
+    ? localProviders[0]?.schedule.timeZone
+    : selectedProvider?.schedule.timeZone;
+
+  const slotIsOpen = availability.some(
+    (day) => day.date === date && day.slots.includes(time)
+  );
+
+
+  const selectPhotos = (files: File[]) => {
+    if (files.length > MAX_BOOKING_PHOTOS) {
+      setPhotoError(`Attach up to ${MAX_BOOKING_PHOTOS} photos.`);
+      return;
+    }
+    for (const file of files) {
+      const message = validateUpload(file, ACCEPTED_IMAGE_TYPES, "Each photo");
+      if (message) {
+        setPhotoError(message);
+        return;
+      }
+    }
+    setPhotoError(null);
+    setPhotos(files);
+  };
+
+  const priceEstimate = selectedProvider
+    ? priceForService(selectedProvider.pricing, service, estimatedHours)
+    : null;
+
+  const recurrenceError = repeats && date ? validateRecurrence(date, recurrence) : null;
+
+  // Occurrences that clash with the provider's calendar are left out of the
+  // series rather than blocking the whole request.
+  const seriesPreview = useMemo(
+    () =>
+      repeats && date && time && selectedProvider
+        ? expandRecurrence(date, recurrence).map((occurrence) => ({
+            date: occurrence,
+            open: isSlotOpen(selectedProvider.schedule, bookedSlots, occurrence, time, {
+              minutes: jobMinutes,
+            }),
+          }))
+        : [],
+    [repeats, date, time, selectedProvider, bookedSlots, recurrence, jobMinutes]
+  );
+
+  const seriesDates = seriesPreview.filter((item) => item.open).map((item) => item.date);
+  const seriesIsValid =
+    isQuote || !repeats || (!recurrenceError && seriesDates.length >= 2);
+
+  const updateRecurrence = (patch: Partial<RecurrenceRule>) => {
+    setRecurrence((prev) => ({ ...prev, ...patch }));
+  };
+
   const canContinue = useMemo(() => {
     if (step === 1) return Boolean(service);
-    if (step === 2) return Boolean(selectedProviderId);
-    if (step === 3) return Boolean(date && time);
-    if (step === 4) return Boolean(address);
+    if (step === 2) return Boolean(location) && coversLocation;
+    if (step === 3) return slotIsOpen && seriesIsValid;
+    if (step === 4) {
+      return (
+        Boolean(serviceAddress) &&
+        Boolean(location) &&
+        coversLocation &&
+        (!isQuote || Boolean(notes.trim()))
+      );
+    }
     return true;
-  }, [step, service, selectedProviderId, date, time, address]);
+  }, [
+    step,
+    service,
+    location,
+    coversLocation,
+    slotIsOpen,
+    seriesIsValid,
+    serviceAddress,
+    isQuote,
+    notes,
+  ]);
+
+  // Keeps the chosen provider if they still cover the new address, otherwise
+  // moves to the first one listed who does.
+  const chooseLocation = (next: StructuredAddress | null) => {
+    setLocation(next);
+    setServiceAddress(null);
+    if (!next) return;
+    if (selectedProvider && !coverageFor(selectedProvider.serviceArea, next).covered) {
+      const [first] = matchProviders(providers, next);
+      if (first) setSelectedProviderId(first.provider.id);
+    }
+  };
+
+  const chooseSavedAddress = (saved: SavedAddress) => {
+    chooseLocation(toStructuredAddress(saved));
+    setServiceAddress(saved);
+  };
+
+  // Picked on the details step, after the provider is chosen, so the provider
+  // is left alone and a coverage warning is shown instead.
+  const selectServiceAddress = (saved: SavedAddress) => {
+    setServiceAddress(saved);
+    setLocation(toStructuredAddress(saved));
+  };
 
   const nextStep = () => {
     if (!canContinue) return;
@@ -226,115 +583,356 @@ export default function BookClient() {
   };
 
   const submitBooking = async () => {
-    if (!sessionUser || sessionRole !== "customer" || !selectedProvider) {
+    if (
+      !sessionUser ||
+      sessionRole !== "customer" ||
+      !serviceAddress ||
+      (!selectedProvider && !broadcasting)
+    ) {
       return;
     }
 
     setSubmitStatus("loading");
     setSubmitError(null);
+    const uploaded: PrivateFile[] = [];
 
     try {
-      await addDoc(collection(db, "bookings"), {
+      const details = {
         customerUid: sessionUser.uid,
         customerName: sessionUser.displayName || "Customer",
         customerEmail: sessionUser.email || "",
-        providerUid: selectedProvider.id,
-        providerName: selectedProvider.displayName,
         service,
         date,
         time,
-        address,
+        address: formatAddressLine(serviceAddress),
+        serviceAddress,
+        location,
         notes,
-        status: "requested",
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+        estimatedHours,
+      };
+
+      // Files go under the booking (or series) id so storage.rules can check
+      // who is allowed to read them. Each finished upload is tracked so it can
+      // be removed again if the booking isn't saved.
+      const uploadPhotos = (folder: string) =>
+        Promise.all(
+          photos.map(async (file) => {
+            const attachment = await uploadPrivateFile(`${folder}/${sessionUser.uid}`, file);
+            uploaded.push(attachment);
+            return attachment;
+          })
+        );
+
+      if (broadcasting) {
+        const bookingId = newBookingId();
+        const attachments = await uploadPhotos(`bookingAttachments/${bookingId}`);
+        await createBroadcastRequest({ ...details, attachments }, candidates, bookingId);
+      } else if (selectedProvider) {
+        const request = {
+          ...details,
+          providerUid: selectedProvider.id,
+          providerName: selectedProvider.displayName,
+        };
+
+        if (repeats && !isQuote) {
+          const seriesId = newSeriesId();
+          const attachments = await uploadPhotos(`seriesAttachments/${seriesId}`);
+          await createBookingSeries({ ...request, attachments }, recurrence, seriesDates, seriesId);
+        } else {
+          const bookingId = newBookingId();
+          const attachments = await uploadPhotos(`bookingAttachments/${bookingId}`);
+          await createBookingRequest({ ...request, mode, attachments }, bookingId);
+        }
+      }
 
       setSubmitStatus("success");
     } catch (err) {
+      void deletePrivateFiles(uploaded);
       const message =
         err instanceof Error
           ? err.message
           : "Unable to create booking request.";
+
+      if (message === SLOT_TAKEN_MESSAGE) {
+        setSubmitStatus("idle");
+        setSlotNotice(message);
+        setTime("");
+        setStep(3);
+        return;
+      }
+
       setSubmitStatus("error");
       setSubmitError(message);
     }
   };
 
-  const rateProvider = async (booking: CustomerBooking, rating: number) => {
+  const reviewProvider = async (booking: CustomerBooking, input: ReviewInput) => {
     if (!sessionUser || !booking.providerUid) return;
 
     setRatingLoadingId(booking.id);
     setRatingError(null);
 
     try {
-      await runTransaction(db, async (transaction) => {
-        const bookingRef = doc(db, "bookings", booking.id);
-        const providerRef = doc(db, "providerProfiles", booking.providerUid as string);
+      await submitReview(booking.id, sessionUser.uid, input);
+      setReviewingId(null);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unable to submit review.";
+      setRatingError(message);
+    } finally {
+      setRatingLoadingId(null);
+    }
+  };
 
-        const bookingSnap = await transaction.get(bookingRef);
-        if (!bookingSnap.exists()) {
-          throw new Error("Booking not found.");
-        }
+  const addToCalendar = (booking: CustomerBooking) => {
+    setActionError(null);
+    try {
+      downloadBookingIcs(booking, "customer");
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Unable to create the calendar file.");
+    }
+  };
 
-        const bookingData = bookingSnap.data();
-        if (bookingData.customerUid !== sessionUser.uid) {
-          throw new Error("You are not allowed to rate this booking.");
-        }
-        if (bookingData.status !== "completed") {
-          throw new Error("You can only rate completed bookings.");
-        }
-        if (bookingData.customerRating) {
-          throw new Error("Booking already rated.");
-        }
+  const respondToProposal = async (booking: CustomerBooking, slot: BookedSlot | null) => {
+    if (!sessionUser) return;
 
-        const providerSnap = await transaction.get(providerRef);
-        if (!providerSnap.exists()) {
-          throw new Error("Provider profile not found.");
-        }
+    setActionLoadingId(booking.id);
+    setActionError(null);
 
-        const providerData = providerSnap.data();
-        const currentCount = Number(providerData.reviewCount || 0);
-        const currentAverage = Number(providerData.rating || 0);
-        const nextCount = currentCount + 1;
-        const nextAverage =
-          (currentAverage * currentCount + rating) / nextCount;
-
-        transaction.update(providerRef, {
-          rating: Number(nextAverage.toFixed(2)),
-          reviewCount: nextCount,
-          updatedAt: serverTimestamp(),
-        });
+    try {
+      const actor = { uid: sessionUser.uid, role: "customer" as const };
+      if (slot) {
+        await acceptProposedTime(booking.id, actor, slot.date, slot.time);
+      } else {
+        await rejectProposedTimes(booking.id, actor);
+      }
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unable to respond to the proposal.";
+      setActionError(message);
+    } finally {
+      setActionLoadingId(null);
+    }
+  };
 
-        transaction.update(bookingRef, {
-          customerRating: rating,
-          ratedAt: serverTimestamp(),
-          updatedAt: serverTimestamp(),
-        });
+  const respondToQuote = async (booking: CustomerBooking, accept: boolean) => {
+    if (!sessionUser) return;
+
+    setActionLoadingId(booking.id);
+    setActionError(null);
+
+    try {
+      const actor = { uid: sessionUser.uid, role: "customer" as const };
+      if (accept) {
+        await acceptQuote(booking.id, actor);
+      } else {
+        await rejectQuote(booking.id, actor, "");
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to respond to the quote.";
+      setActionError(message);
+    } finally {
+      setActionLoadingId(null);
+    }
+  };
+
+  const skipVisit = async (booking: CustomerBooking) => {
+    if (!sessionUser) return;
+
+    setActionLoadingId(booking.id);
+    setActionError(null);
+
+    try {
+      await skipOccurrence(booking.id, { uid: sessionUser.uid, role: "customer" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to skip this visit.";
+      setActionError(message);
+    } finally {
+      setActionLoadingId(null);
+    }
+  };
+
+  // Only providers who are free at the original time are offered, so the
+  // request can go out again in one click.
+  const loadResendProviders = async (booking: CustomerBooking) => {
+    const { service: bookedService, date: bookedDate, time: bookedTime } = booking;
+    if (!bookedService || !bookedDate || !bookedTime) return;
+
+    setManageLoading(true);
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(db, "providerProfiles"),
+          where("services", "array-contains", bookedService)
+        )
+      );
+      const candidates = sortProviders(
+        snapshot.docs
+          .map((docSnap) => parseProviderProfile(docSnap.id, docSnap.data()))
+          .filter((provider) => isBookable(provider) && provider.id !== booking.providerUid)
+      );
+      const local = matchProviders(candidates, parseAddress(booking.location)).map(
+        (match) => match.provider
+      );
+      const booked = await Promise.all(local.map((provider) => loadBookedSlots(provider.id)));
+      setResendProviders(
+        local.filter((provider, index) =>
+          isSlotOpen(provider.schedule, booked[index], bookedDate, bookedTime, {
+            minutes: (Number(booking.estimatedHours) || 0) * 60,
+          })
+        )
+      );
+    } catch (err) {
+      setManageError(err instanceof Error ? err.message : "Unable to load other providers.");
+    } finally {
+      setManageLoading(false);
+    }
+  };
+
+  const openManage = async (booking: CustomerBooking, action: ManageMode["action"]) => {
+    setManageMode({ bookingId: booking.id, action });
+    setManageError(null);
+    setCancelReason("");
+    setRescheduleDate("");
+    setRescheduleTime("");
+    setRescheduleAvailability([]);
+    setResendProviders([]);
+
+    if (action === "resend") {
+      await loadResendProviders(booking);
+      return;
+    }
+    if (action !== "reschedule" || !booking.providerUid) return;
+
+    setManageLoading(true);
+    try {
+      const [providerSnap, booked] = await Promise.all([
+        getDoc(doc(db, "providerProfiles", booking.providerUid)),
+        loadBookedSlots(booking.providerUid, { excludeBookingId: booking.id }),
+      ]);
+      if (!providerSnap.exists()) {
+        throw new Error("Provider profile not found.");
+      }
+      const provider = parseProviderProfile(providerSnap.id, providerSnap.data());
+      setRescheduleAvailability(
+        computeAvailability(provider.schedule, booked, {
+          minutes: (Number(booking.estimatedHours) || 0) * 60,
+        })
+      );
+    } catch (err) {
+      setManageError(
+        err instanceof Error ? err.message : "Unable to load provider availability."
+      );
+    } finally {
+      setManageLoading(false);
+    }
+  };
+
+  const submitCancel = async (booking: CustomerBooking) => {
+    if (!sessionUser) return;
+    if (!cancelReason.trim()) {
+      setManageError("Let your provider know why you are cancelling.");
+      return;
+    }
+
+    setManageLoading(true);
+    setManageError(null);
+
+    try {
+      const actor = { uid: sessionUser.uid, role: "customer" as const };
+      if (manageMode?.action === "cancelSeries" && booking.seriesId) {
+        await cancelSeries(booking.seriesId, actor, cancelReason.trim());
+      } else {
+        await cancelBooking(booking.id, actor, cancelReason.trim());
+      }
+      setManageMode(null);
+    } catch (err) {
+      setManageError(err instanceof Error ? err.message : "Unable to cancel booking.");
+    } finally {
+      setManageLoading(false);
+    }
+  };
+
+  const submitResend = async (booking: CustomerBooking, provider: ProviderProfile) => {
+    if (!sessionUser) return;
+
+    setManageLoading(true);
+    setManageError(null);
+
+    try {
+      await sendToAnotherProvider(booking.id, sessionUser.uid, {
+        uid: provider.id,
+        name: provider.displayName,
       });
+      setManageMode(null);
     } catch (err) {
-      const message =
-        err instanceof Error ? err.message : "Unable to submit rating.";
-      setRatingError(message);
+      setManageError(
+        err instanceof Error ? err.message : "Unable to send the request to this provider."
+      );
     } finally {
-      setRatingLoadingId(null);
+      setManageLoading(false);
+    }
+  };
+
+  // Starts a fresh request with the old details when nobody is free at the
+  // original time.
+  const startNewRequest = (booking: CustomerBooking) => {
+    setManageMode(null);
+    setService(booking.service || "");
+    setModeOverride(booking.mode || null);
+    // The booking's copy leaves out the gate code and access notes, so the
+    // address book entry it came from is used when it still exists.
+    const previous = parseSavedAddress(booking.serviceAddress);
+    setServiceAddress(addressBook.find((saved) => saved.id === previous?.id) || previous);
+    setLocation(parseAddress(booking.location));
+    setNotes(booking.notes || "");
+    setEstimatedHours(Number(booking.estimatedHours) || 2);
+    setDate("");
+    setTime("");
+    setRepeats(false);
+    setSubmitStatus("idle");
+    setStep(2);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const submitReschedule = async (booking: CustomerBooking) => {
+    if (!sessionUser || !rescheduleDate || !rescheduleTime) return;
+
+    setManageLoading(true);
+    setManageError(null);
+
+    try {
+      await rescheduleBooking(
+        booking.id,
+        { uid: sessionUser.uid, role: "customer" },
+        rescheduleDate,
+        rescheduleTime
+      );
+      setManageMode(null);
+    } catch (err) {
+      setManageError(err instanceof Error ? err.message : "Unable to reschedule booking.");
+    } finally {
+      setManageLoading(false);
     }
   };
 
   return (
     <div className="min-h-screen bg-[var(--background)] text-[var(--prime-ink)]">
       <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
-        <header className="space-y-3">
-          <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
-            Book a service
-          </p>
-          <h1 className="font-serif text-3xl sm:text-4xl">
-            Schedule trusted help in minutes.
-          </h1>
-          <p className="max-w-2xl text-sm text-[color:rgba(20,21,22,0.7)]">
-            Choose a service, select an available provider, and send your booking
-            request.
-          </p>
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
+              Book a service
+            </p>
+            <h1 className="font-serif text-3xl sm:text-4xl">
+              Schedule trusted help in minutes.
+            </h1>
+            <p className="max-w-2xl text-sm text-[color:rgba(20,21,22,0.7)]">
+              Choose a service, select an available provider, and send your booking
+              request.
+            </p>
+          </div>
+          {sessionUser ? <NotificationBell uid={sessionUser.uid} /> : null}
         </header>
 
         <div className="rounded-[32px] border border-white/70 bg-white/70 p-6 shadow-[0_18px_45px_rgba(15,42,34,0.12)]">
@@ -363,29 +961,88 @@ export default function BookClient() {
               <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
                 Choose the service you want to book.
               </p>
+              {servicesError ? (
+                <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                  {servicesError}
+                </p>
+              ) : null}
               <div className="grid gap-3 sm:grid-cols-2">
                 {services.map((item) => (
                   <button
-                    key={item}
+                    key={item.slug}
                     type="button"
-                    onClick={() => setService(item)}
+                    onClick={() => {
+                      setService(item.title);
+                      setModeOverride(null);
+                    }}
                     className={`rounded-2xl border px-4 py-3 text-left text-sm font-medium transition ${
-                      service === item
+                      service === item.title
                         ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
                         : "border-[var(--prime-sand)] bg-white text-[var(--prime-ink)] hover:border-[var(--prime-forest)]"
                     }`}
                   >
-                    {item}
+                    {item.icon ? `${item.icon} ` : ""}
+                    {item.title}
                   </button>
                 ))}
               </div>
+              {service ? (
+                <div className="flex flex-wrap gap-2">
+                  {(
+                    [
+                      ["booking", "Book a time"],
+                      ["quote", "Request a quote"],
+                    ] as const
+                  ).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setModeOverride(value)}
+                      className={`rounded-full border px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] transition ${
+                        mode === value
+                          ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                          : "border-[var(--prime-sand)] bg-white text-[var(--prime-ink)] hover:border-[var(--prime-forest)]"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+              {isQuote ? (
+                <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                  Describe the job and add photos. Your provider replies with an itemised quote
+                  before anything is booked.
+                </p>
+              ) : null}
             </div>
           ) : null}
 
           {step === 2 ? (
             <div className="space-y-5">
+              {!location && addressBook.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {addressBook.map((saved) => (
+                    <button
+                      key={saved.id}
+                      type="button"
+                      onClick={() => chooseSavedAddress(saved)}
+                      className="rounded-full border border-[var(--prime-sand)] bg-white px-4 py-2 text-xs font-semibold transition hover:border-[var(--prime-forest)]"
+                    >
+                      {saved.label}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+              <AddressPicker
+                label="Where do you need help?"
+                value={location}
+                onChange={chooseLocation}
+              />
               <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
-                Select from providers currently online and accepting bookings.
+                {location
+                  ? "Providers online, accepting bookings and covering your address."
+                  : "Enter your address to see the providers who cover it."}
               </p>
               {providersLoading ? (
                 <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
@@ -402,64 +1059,279 @@ export default function BookClient() {
                   No available providers are currently open for {service}.
                 </p>
               ) : null}
-              <div className="grid gap-3">
-                {providers.map((provider) => (
-                  <button
-                    key={provider.id}
-                    type="button"
-                    onClick={() => setSelectedProviderId(provider.id)}
-                    className={`rounded-2xl border p-4 text-left transition ${
-                      selectedProviderId === provider.id
-                        ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
-                        : "border-[var(--prime-sand)] bg-white hover:border-[var(--prime-forest)]"
-                    }`}
-                  >
-                    <div className="flex flex-wrap items-center justify-between gap-2">
-                      <p className="text-sm font-semibold">{provider.displayName}</p>
-                      <p className="text-xs font-semibold uppercase tracking-[0.12em]">
-                        Rating {provider.rating.toFixed(1)} ({provider.reviewCount})
+              {location && providers.length > 0 && localProviders.length === 0 ? (
+                <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  No {service} providers cover {location.label} yet.
+                </p>
+              ) : null}
+              {location ? (
+                <div className="grid gap-3">
+                  {!isQuote && localProviders.length > 1 ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setAnyProvider(true);
+                        setRepeats(false);
+                      }}
+                      className={`rounded-2xl border p-4 text-left transition ${
+                        broadcasting
+                          ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                          : "border-[var(--prime-sand)] bg-white hover:border-[var(--prime-forest)]"
+                      }`}
+                    >
+                      <p className="text-sm font-semibold">First available provider</p>
+                      <p
+                        className={`mt-2 text-sm ${
+                          broadcasting ? "text-white/90" : "text-[color:rgba(20,21,22,0.7)]"
+                        }`}
+                      >
+                        Send your request to every provider free at your chosen time. The first to
+                        accept gets the booking.
                       </p>
-                    </div>
-                    <p
-                      className={`mt-2 text-sm ${
-                        selectedProviderId === provider.id
-                          ? "text-white/90"
-                          : "text-[color:rgba(20,21,22,0.7)]"
+                    </button>
+                  ) : null}
+                  {providerMatches.map(({ provider, areaSet, distanceKm }) => (
+                    <button
+                      key={provider.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedProviderId(provider.id);
+                        setAnyProvider(false);
+                      }}
+                      className={`rounded-2xl border p-4 text-left transition ${
+                        selectedProviderId === provider.id && !broadcasting
+                          ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                          : "border-[var(--prime-sand)] bg-white hover:border-[var(--prime-forest)]"
                       }`}
                     >
-                      {provider.bio || "No profile bio yet."}
-                    </p>
-                  </button>
-                ))}
-              </div>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm font-semibold">{provider.displayName}</p>
+                        <p className="text-xs font-semibold uppercase tracking-[0.12em]">
+                          Rating {provider.rating.toFixed(1)} ({provider.reviewCount})
+                        </p>
+                      </div>
+                      <p
+                        className={`mt-2 text-sm ${
+                          selectedProviderId === provider.id && !broadcasting
+                            ? "text-white/90"
+                            : "text-[color:rgba(20,21,22,0.7)]"
+                        }`}
+                      >
+                        {provider.bio || "No profile bio yet."}
+                      </p>
+                      <p className="mt-2 text-xs font-semibold">
+                        {provider.pricing[service]
+                          ? describePricing(provider.pricing[service])
+                          : "Price confirmed by provider"}
+                        {" · "}
+                        {!areaSet
+                          ? "Service area not set"
+                          : distanceKm !== null
+                            ? formatDistance(distanceKm)
+                            : "Covers your area"}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              ) : null}
             </div>
           ) : null}
 
           {step === 3 ? (
             <div className="space-y-5">
               <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
-                Select a date and time that works best for you.
+                {broadcasting
+                  ? "Pick a time. Every slot shown is free for at least one provider."
+                  : `Pick an open slot from ${selectedProvider?.displayName || "your provider"}'s working hours.`}
               </p>
-              <div className="grid gap-4 sm:grid-cols-2">
-                <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
-                  Date
-                  <input
-                    type="date"
-                    value={date}
-                    onChange={(event) => setDate(event.target.value)}
-                    className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
-                  />
-                </label>
-                <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
-                  Time
-                  <input
-                    type="time"
-                    value={time}
-                    onChange={(event) => setTime(event.target.value)}
-                    className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
-                  />
-                </label>
-              </div>
+              {availabilityError ? (
+                <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                  {availabilityError}
+                </p>
+              ) : null}
+              {slotNotice ? (
+                <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  {slotNotice}
+                </p>
+              ) : null}
+              <SlotPicker
+                availability={availability}
+                date={date}
+                time={time}
+                loading={availabilityLoading}
+                timeZone={slotTimeZone}
+                onSelect={(nextDate, nextTime) => {
+                  setDate(nextDate);
+                  setTime(nextTime);
+                  setSlotNotice(null);
+                }}
+              />
+
+              {isQuote ? (
+                <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                  This is your preferred visit time. It&apos;s held for you while you wait for
+                  the quote.
+                </p>
+              ) : null}
+
+              <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+                Estimated duration
+                <select
+                  value={estimatedHours}
+                  onChange={(event) => setEstimatedHours(Number(event.target.value))}
+                  className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                >
+                  {DURATION_OPTIONS.map((hours) => (
+                    <option key={hours} value={hours}>
+                      {hours} {hours === 1 ? "hour" : "hours"}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {broadcasting && candidates.length > 0 ? (
+                <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                  {candidates.length} {candidates.length === 1 ? "provider is" : "providers are"}{" "}
+                  free at this time.
+                </p>
+              ) : null}
+
+              {slotIsOpen && !isQuote && !broadcasting ? (
+                <div className="space-y-4 rounded-2xl border border-[var(--prime-sand)] bg-white p-4">
+                  <label className="flex items-center gap-3 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={repeats}
+                      onChange={(event) => setRepeats(event.target.checked)}
+                      className="h-4 w-4 accent-[var(--prime-forest)]"
+                    />
+                    Repeat this booking
+                  </label>
+
+                  {repeats ? (
+                    <>
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        <label className="grid gap-2 text-sm font-medium">
+                          Frequency
+                          <select
+                            value={recurrence.frequency}
+                            onChange={(event) =>
+                              updateRecurrence({
+                                frequency: event.target.value as RecurrenceFrequency,
+                              })
+                            }
+                            className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                          >
+                            {Object.entries(recurrenceLabels).map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="grid gap-2 text-sm font-medium">
+                          Ends
+                          <select
+                            value={recurrence.endType}
+                            onChange={(event) =>
+                              updateRecurrence({
+                                endType: event.target.value as RecurrenceRule["endType"],
+                              })
+                            }
+                            className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                          >
+                            <option value="count">After a number of visits</option>
+                            <option value="date">On a date</option>
+                          </select>
+                        </label>
+                      </div>
+
+                      {recurrence.frequency === "custom" ? (
+                        <div className="flex flex-wrap gap-2">
+                          {WEEKDAY_LABELS.map((label, index) => (
+                            <button
+                              key={label}
+                              type="button"
+                              onClick={() =>
+                                updateRecurrence({
+                                  weekdays: recurrence.weekdays.includes(index)
+                                    ? recurrence.weekdays.filter((day) => day !== index)
+                                    : [...recurrence.weekdays, index],
+                                })
+                              }
+                              className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                                recurrence.weekdays.includes(index)
+                                  ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                                  : "border-[var(--prime-sand)] bg-white hover:border-[var(--prime-forest)]"
+                              }`}
+                            >
+                              {label.slice(0, 3)}
+                            </button>
+                          ))}
+                        </div>
+                      ) : null}
+
+                      {recurrence.endType === "count" ? (
+                        <label className="grid gap-2 text-sm font-medium">
+                          Number of visits
+                          <input
+                            type="number"
+                            min={2}
+                            max={MAX_OCCURRENCES}
+                            value={recurrence.count}
+                            onChange={(event) =>
+                              updateRecurrence({ count: Number(event.target.value) })
+                            }
+                            className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                          />
+                        </label>
+                      ) : (
+                        <label className="grid gap-2 text-sm font-medium">
+                          Last visit on or before
+                          <input
+                            type="date"
+                            min={date}
+                            value={recurrence.endDate}
+                            onChange={(event) => updateRecurrence({ endDate: event.target.value })}
+                            className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                          />
+                        </label>
+                      )}
+
+                      {recurrenceError ? (
+                        <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                          {recurrenceError}
+                        </p>
+                      ) : (
+                        <div className="space-y-2">
+                          <p className="text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+                            {seriesDates.length} visits at {time}
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            {seriesPreview.map((item) => (
+                              <span
+                                key={item.date}
+                                className={`rounded-full px-3 py-1 text-xs ${
+                                  item.open
+                                    ? "bg-[var(--prime-cream)] text-[var(--prime-ink)]"
+                                    : "bg-red-50 text-red-700 line-through"
+                                }`}
+                              >
+                                {formatDateKey(item.date)}
+                              </span>
+                            ))}
+                          </div>
+                          {seriesPreview.some((item) => !item.open) ? (
+                            <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                              Crossed-out dates are unavailable and will be left out.
+                            </p>
+                          ) : null}
+                        </div>
+                      )}
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
             </div>
           ) : null}
 
@@ -468,26 +1340,82 @@ export default function BookClient() {
               <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
                 Add the address and any helpful notes for the provider.
               </p>
+              {serviceAddress ? (
+                <div className="flex flex-wrap items-start justify-between gap-3 rounded-2xl border border-[var(--prime-forest)] bg-white px-4 py-3 text-sm">
+                  <div>
+                    <p className="font-semibold">{serviceAddress.label}</p>
+                    <p className="text-[color:rgba(20,21,22,0.7)]">
+                      {formatAddressLine(serviceAddress)}
+                    </p>
+                    {accessDetails(serviceAddress).map((item) => (
+                      <p key={item.label} className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                        {item.label}: {item.value}
+                      </p>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setServiceAddress(null)}
+                    className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+                  >
+                    Change
+                  </button>
+                </div>
+              ) : (
+                <div className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+                  Service address
+                  <AddressBook
+                    uid={sessionRole === "customer" ? sessionUser?.uid || null : null}
+                    addresses={addressBook}
+                    onAddressesChange={setAddressBook}
+                    onSelect={selectServiceAddress}
+                    prefill={
+                      location ? { suburb: location.suburb, postcode: location.postcode } : undefined
+                    }
+                  />
+                </div>
+              )}
+              {location && !coversLocation && selectedProvider ? (
+                <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  {selectedProvider.displayName} doesn&apos;t cover {location.label}. Go back to
+                  choose another provider.
+                </p>
+              ) : null}
               <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
-                Service address
-                <input
-                  type="text"
-                  value={address}
-                  onChange={(event) => setAddress(event.target.value)}
-                  placeholder="24 Parkview Lane"
-                  className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
-                />
-              </label>
-              <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
-                Notes (optional)
+                {isQuote ? "Describe the job" : "Notes (optional)"}
                 <textarea
                   value={notes}
                   onChange={(event) => setNotes(event.target.value)}
                   rows={4}
-                  placeholder="Gate code, parking details, preferred supplies, etc."
+                  placeholder={
+                    isQuote
+                      ? "What needs fixing, when it started, anything already tried."
+                      : "Gate code, parking details, preferred supplies, etc."
+                  }
                   className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
                 />
               </label>
+              <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+                Photos (up to {MAX_BOOKING_PHOTOS}, optional)
+                <input
+                  type="file"
+                  accept={ACCEPTED_IMAGE_TYPES.join(",")}
+                  multiple
+                  onChange={(event) => selectPhotos(Array.from(event.target.files || []))}
+                  className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm"
+                />
+                {photoError ? (
+                  <span className="text-xs text-red-600">{photoError}</span>
+                ) : null}
+                {photos.length > 0 ? (
+                  <span className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                    {photos.map((file) => file.name).join(", ")}
+                  </span>
+                ) : null}
+                <span className="text-xs font-normal text-[color:rgba(20,21,22,0.6)]">
+                  Only you, your provider and our support team can see these.
+                </span>
+              </label>
             </div>
           ) : null}
 
@@ -503,18 +1431,89 @@ export default function BookClient() {
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-[color:rgba(20,21,22,0.7)]">Provider</span>
-                  <span className="font-semibold">{selectedProvider?.displayName || "Not set"}</span>
+                  <span className="font-semibold">
+                    {broadcasting
+                      ? "First available provider"
+                      : selectedProvider?.displayName || "Not set"}
+                  </span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-[color:rgba(20,21,22,0.7)]">Schedule</span>
                   <span className="font-semibold">
-                    {date && time ? `${date} • ${time}` : "Not set"}
+                    {date && time && slotTimeZone
+                      ? formatBookingTime({ date, time, timeZone: slotTimeZone })
+                      : "Not set"}
                   </span>
                 </div>
+                {repeats && !isQuote ? (
+                  <div className="flex items-center justify-between">
+                    <span className="text-[color:rgba(20,21,22,0.7)]">Repeats</span>
+                    <span className="font-semibold">
+                      {describeRecurrence(recurrence)} ({seriesDates.length} booked)
+                    </span>
+                  </div>
+                ) : null}
                 <div className="flex items-center justify-between">
                   <span className="text-[color:rgba(20,21,22,0.7)]">Address</span>
-                  <span className="font-semibold">{address || "Not set"}</span>
+                  <span className="font-semibold">
+                    {serviceAddress ? formatAddressLine(serviceAddress) : "Not set"}
+                  </span>
                 </div>
+                {photos.length > 0 ? (
+                  <div className="flex items-center justify-between">
+                    <span className="text-[color:rgba(20,21,22,0.7)]">Photos</span>
+                    <span className="font-semibold">{photos.length} attached</span>
+                  </div>
+                ) : null}
+              </div>
+
+              <div className="grid gap-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+                {broadcasting ? (
+                  <p className="text-[color:rgba(20,21,22,0.7)]">
+                    Your request goes to {candidates.length}{" "}
+                    {candidates.length === 1 ? "provider" : "providers"}. The price is set from
+                    the published rates of whoever accepts first.
+                  </p>
+                ) : isQuote ? (
+                  <p className="text-[color:rgba(20,21,22,0.7)]">
+                    {selectedProvider?.displayName || "Your provider"} will reply with an
+                    itemised quote{photos.length > 0 ? ` based on your ${photos.length} photos` : ""}.
+                    Nothing is booked until you accept it.
+                  </p>
+                ) : priceEstimate ? (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span className="text-[color:rgba(20,21,22,0.7)]">
+                        {priceEstimate.model === "hourly"
+                          ? `Labour (${priceEstimate.billableHours} h × ${formatPrice(priceEstimate.hourlyRate)})`
+                          : "Fixed price"}
+                      </span>
+                      <span className="font-semibold">{formatPrice(priceEstimate.labour)}</span>
+                    </div>
+                    {priceEstimate.calloutFee > 0 ? (
+                      <div className="flex items-center justify-between">
+                        <span className="text-[color:rgba(20,21,22,0.7)]">Call-out fee</span>
+                        <span className="font-semibold">{formatPrice(priceEstimate.calloutFee)}</span>
+                      </div>
+                    ) : null}
+                    {priceEstimate.billableHours > priceEstimate.estimatedHours ? (
+                      <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                        Includes the provider&apos;s {priceEstimate.billableHours} hour minimum.
+                      </p>
+                    ) : null}
+                    <div className="flex items-center justify-between border-t border-[var(--prime-sand)] pt-3">
+                      <span className="font-semibold">
+                        Estimated total{repeats ? " per visit" : ""}
+                      </span>
+                      <span className="font-semibold">{formatPrice(priceEstimate.total)}</span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-[color:rgba(20,21,22,0.7)]">
+                    {selectedProvider?.displayName || "Your provider"} hasn&apos;t published
+                    pricing for {service || "this service"} yet and will confirm the price.
+                  </p>
+                )}
               </div>
 
               {checkingSession ? (
@@ -541,7 +1540,13 @@ export default function BookClient() {
 
               {submitStatus === "success" ? (
                 <p className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
-                  Booking request sent. Your provider will review and respond.
+                  {isQuote
+                    ? "Quote request sent. You'll see the provider's quote under My bookings."
+                    : repeats
+                    ? "Recurring booking request sent. Your provider can accept the whole series at once."
+                    : broadcasting
+                    ? "Request sent to every provider free at that time. The first to accept gets the booking."
+                    : "Booking request sent. Your provider will review and respond."}
                 </p>
               ) : null}
             </div>
@@ -598,11 +1603,28 @@ export default function BookClient() {
                 My bookings
               </p>
               <h2 className="font-serif text-2xl">Your recent requests</h2>
+              <div className="grid gap-3 md:grid-cols-2">
+                <NotificationSettings uid={sessionUser.uid} topics={["bookingUpdates"]} />
+                <CalendarFeedPanel uid={sessionUser.uid} />
+              </div>
+              <div className="space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+                <p className="font-medium">Saved addresses</p>
+                <AddressBook
+                  uid={sessionUser.uid}
+                  addresses={addressBook}
+                  onAddressesChange={setAddressBook}
+                />
+              </div>
               {ratingError ? (
                 <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
                   {ratingError}
                 </p>
               ) : null}
+              {actionError ? (
+                <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                  {actionError}
+                </p>
+              ) : null}
             </div>
 
             <div className="mt-5 space-y-4">
@@ -614,39 +1636,347 @@ export default function BookClient() {
               {customerBookings.map((booking) => (
                 <article
                   key={booking.id}
-                  className="rounded-2xl border border-[var(--prime-sand)] bg-[var(--prime-cream)] p-4"
+                  id={`booking-${booking.id}`}
+                  className="scroll-mt-24 target:ring-2 target:ring-[var(--prime-copper)] rounded-2xl border border-[var(--prime-sand)] bg-[var(--prime-cream)] p-4"
                 >
                   <div className="flex flex-wrap items-center justify-between gap-2">
                     <p className="text-sm font-semibold">
-                      {booking.service || "Service"} with {booking.providerName || "Provider"}
+                      {booking.service || "Service"} with{" "}
+                      {booking.providerName ||
+                        (booking.broadcast ? "the first available provider" : "Provider")}
                     </p>
                     <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-copper)]">
-                      {booking.status || "requested"}
+                      {bookingStatusLabels[toBookingStatus(booking.status)]}
                     </p>
                   </div>
                   <p className="mt-2 text-sm text-[color:rgba(20,21,22,0.7)]">
-                    {booking.date || "-"} • {booking.time || "-"} • {booking.address || "-"}
+                    {formatBookingTime(booking)} • {booking.address || "-"}
                   </p>
+                  {booking.price ? (
+                    <p className="mt-1 text-xs font-semibold">
+                      Estimated {formatPrice(booking.price.total)}
+                    </p>
+                  ) : null}
+                  {booking.seriesId ? (
+                    <p className="mt-1 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Visit {booking.occurrenceIndex} of {booking.occurrenceCount} •{" "}
+                      {booking.seriesSummary}
+                    </p>
+                  ) : null}
 
-                  {booking.status === "completed" && !booking.customerRating ? (
-                    <div className="mt-3 flex flex-wrap items-center gap-2">
-                      <span className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-ink)]">
-                        Rate provider
-                      </span>
-                      {[1, 2, 3, 4, 5].map((value) => (
+                  {booking.status === "cancelled" && booking.cancellationReason ? (
+                    <p className="mt-2 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Cancelled by {booking.cancelledBy || "customer"}: {booking.cancellationReason}
+                    </p>
+                  ) : null}
+
+                  {booking.status === "reschedule_proposed" ? (
+                    <div className="mt-3 space-y-3 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+                      <p className="text-sm text-amber-800">
+                        {booking.providerName || "Your provider"} can&apos;t make this time and
+                        proposed alternatives.
+                      </p>
+                      {booking.proposalNote ? (
+                        <p className="text-sm text-amber-800">&ldquo;{booking.proposalNote}&rdquo;</p>
+                      ) : null}
+                      <div className="flex flex-wrap gap-2">
+                        {(booking.proposedTimes || []).map((slot) => (
+                          <button
+                            key={`${slot.date}-${slot.time}`}
+                            type="button"
+                            onClick={() => respondToProposal(booking, slot)}
+                            disabled={actionLoadingId === booking.id}
+                            className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold text-white disabled:cursor-not-allowed disabled:opacity-70"
+                          >
+                            Accept {formatBookingTime({ ...slot, timeZone: booking.timeZone })}
+                          </button>
+                        ))}
                         <button
-                          key={`${booking.id}-${value}`}
                           type="button"
-                          onClick={() => rateProvider(booking, value)}
-                          disabled={ratingLoadingId === booking.id}
-                          className="rounded-full border border-[var(--prime-forest)] px-3 py-1 text-xs font-semibold text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white disabled:cursor-not-allowed disabled:opacity-70"
+                          onClick={() => respondToProposal(booking, null)}
+                          disabled={actionLoadingId === booking.id}
+                          className="rounded-full border border-red-500 px-4 py-2 text-xs font-semibold text-red-600 disabled:cursor-not-allowed disabled:opacity-70"
                         >
-                          {value}
+                          Reject all
                         </button>
-                      ))}
+                      </div>
                     </div>
                   ) : null}
 
+                  {booking.status === "quote_requested" ? (
+                    <p className="mt-3 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Waiting for {booking.providerName || "the provider"} to send a quote.
+                    </p>
+                  ) : null}
+
+                  {booking.broadcast && !booking.providerUid && booking.status === "requested" ? (
+                    <p className="mt-2 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Offered to {booking.candidateProviderUids?.length || 0} available{" "}
+                      {booking.candidateProviderUids?.length === 1 ? "provider" : "providers"}.
+                      The first to accept gets the booking.
+                    </p>
+                  ) : null}
+
+                  {respondByLabel(booking) ? (
+                    <p className="mt-2 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Waiting for a reply until {respondByLabel(booking)}.
+                    </p>
+                  ) : null}
+
+                  {booking.status === "expired" ? (
+                    <p className="mt-2 text-xs text-[color:rgba(20,21,22,0.6)]">
+                      Nobody responded in time, so this request expired.
+                    </p>
+                  ) : null}
+
+                  {RESENDABLE_STATUSES.includes(toBookingStatus(booking.status)) &&
+                  !booking.seriesId ? (
+                    booking.resentToBookingId ? (
+                      <p className="mt-2 text-xs text-[color:rgba(20,21,22,0.6)]">
+                        Sent to another provider.
+                      </p>
+                    ) : (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        <button
+                          type="button"
+                          onClick={() => openManage(booking, "resend")}
+                          className="rounded-full border border-[var(--prime-forest)] px-3 py-1 text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+                        >
+                          Send to another provider
+                        </button>
+                      </div>
+                    )
+                  ) : null}
+
+                  <AttachmentList attachments={booking.attachments || []} />
+
+                  <div className="mt-3">
+                    <div className="flex flex-wrap gap-2">
+                      {booking.providerUid ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setOpenThreadId((prev) => (prev === booking.id ? null : booking.id))
+                          }
+                          className="rounded-full border border-[var(--prime-sand)] bg-white px-3 py-1 text-xs font-semibold text-[var(--prime-forest)]"
+                        >
+                          {openThreadId === booking.id ? "Hide messages" : "Messages"}
+                          {unreadCount(booking, "customer") > 0
+                            ? ` (${unreadCount(booking, "customer")} unread)`
+                            : ""}
+                        </button>
+                      ) : null}
+                      {booking.status === "accepted" ? (
+                        <button
+                          type="button"
+                          onClick={() => addToCalendar(booking)}
+                          className="rounded-full border border-[var(--prime-sand)] bg-white px-3 py-1 text-xs font-semibold text-[var(--prime-forest)]"
+                        >
+                          Add to calendar
+                        </button>
+                      ) : null}
+                    </div>
+                    {openThreadId === booking.id && sessionUser ? (
+                      <MessageThread
+                        bookingId={booking.id}
+                        viewer={{ uid: sessionUser.uid, role: "customer" }}
+                        counterpartName={booking.providerName || "the provider"}
+                        unread={unreadCount(booking, "customer")}
+                      />
+                    ) : null}
+                  </div>
+
+                  {booking.quote ? (
+                    <QuoteSummary
+                      booking={booking}
+                      loading={actionLoadingId === booking.id}
+                      onRespond={(accept) => respondToQuote(booking, accept)}
+                    />
+                  ) : null}
+
+                  {booking.status === "requested" ||
+                  booking.status === "quote_requested" ||
+                  booking.status === "reschedule_proposed" ||
+                  booking.status === "accepted" ? (
+                    isPastCancellationCutoff(booking) ? (
+                      <p className="mt-3 text-xs text-[color:rgba(20,21,22,0.6)]">
+                        Changes close {CANCELLATION_CUTOFF_HOURS} hours before the start time.
+                      </p>
+                    ) : (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {booking.status !== "quote_requested" && booking.providerUid ? (
+                          <button
+                            type="button"
+                            onClick={() => openManage(booking, "reschedule")}
+                            className="rounded-full border border-[var(--prime-forest)] px-3 py-1 text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+                          >
+                            Reschedule
+                          </button>
+                        ) : null}
+                        <button
+                          type="button"
+                          onClick={() => openManage(booking, "cancel")}
+                          className="rounded-full border border-red-500 px-3 py-1 text-xs font-semibold uppercase tracking-[0.12em] text-red-600"
+                        >
+                          Cancel
+                        </button>
+                        {booking.seriesId ? (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => skipVisit(booking)}
+                              disabled={actionLoadingId === booking.id}
+                              className="rounded-full border border-[var(--prime-sand)] px-3 py-1 text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-ink)] disabled:cursor-not-allowed disabled:opacity-70"
+                            >
+                              Skip visit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => openManage(booking, "cancelSeries")}
+                              className="rounded-full border border-red-500 px-3 py-1 text-xs font-semibold uppercase tracking-[0.12em] text-red-600"
+                            >
+                              Cancel series
+                            </button>
+                          </>
+                        ) : null}
+                      </div>
+                    )
+                  ) : null}
+
+                  {manageMode?.bookingId === booking.id && manageMode.action === "resend" ? (
+                    <div className="mt-4 space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4">
+                      {manageError ? (
+                        <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                          {manageError}
+                        </p>
+                      ) : null}
+                      <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
+                        {manageLoading
+                          ? "Finding providers who are free at this time..."
+                          : resendProviders.length > 0
+                            ? `These providers are free on ${formatBookingTime(booking)}. Photos aren't shared with the new provider; add them in the messages once they reply.`
+                            : "No other provider is free at this time."}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {resendProviders.map((provider) => (
+                          <button
+                            key={provider.id}
+                            type="button"
+                            onClick={() => submitResend(booking, provider)}
+                            disabled={manageLoading}
+                            className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold text-white disabled:cursor-not-allowed disabled:opacity-70"
+                          >
+                            Send to {provider.displayName}
+                            {provider.reviewCount > 0 ? ` (${provider.rating.toFixed(1)}★)` : ""}
+                          </button>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => startNewRequest(booking)}
+                          className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+                        >
+                          Pick another time
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setManageMode(null)}
+                          className="rounded-full border border-[var(--prime-sand)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-ink)]"
+                        >
+                          Close
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
+
+                  {manageMode?.bookingId === booking.id && manageMode.action !== "resend" ? (
+                    <div className="mt-4 space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4">
+                      {manageError ? (
+                        <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                          {manageError}
+                        </p>
+                      ) : null}
+
+                      {manageMode.action !== "reschedule" ? (
+                        <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+                          {manageMode.action === "cancelSeries"
+                            ? "Reason for cancelling all remaining visits"
+                            : "Reason for cancelling"}
+                          <textarea
+                            rows={3}
+                            value={cancelReason}
+                            onChange={(event) => setCancelReason(event.target.value)}
+                            className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                          />
+                        </label>
+                      ) : (
+                        <>
+                          <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
+                            Pick a new slot. Your provider will need to confirm it again.
+                          </p>
+                          <SlotPicker
+                            availability={rescheduleAvailability}
+                            date={rescheduleDate}
+                            time={rescheduleTime}
+                            loading={manageLoading}
+                            timeZone={booking.timeZone}
+                            onSelect={(nextDate, nextTime) => {
+                              setRescheduleDate(nextDate);
+                              setRescheduleTime(nextTime);
+                            }}
+                          />
+                        </>
+                      )}
+
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            manageMode.action === "reschedule"
+                              ? submitReschedule(booking)
+                              : submitCancel(booking)
+                          }
+                          disabled={
+                            manageLoading ||
+                            (manageMode.action === "reschedule" &&
+                              !(rescheduleDate && rescheduleTime))
+                          }
+                          className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+                        >
+                          {manageMode.action === "reschedule" ? "Confirm new time" : "Confirm cancellation"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setManageMode(null)}
+                          className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+                        >
+                          Keep booking
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
+
+                  {booking.status === "completed" && !booking.customerRating ? (
+                    reviewingId === booking.id ? (
+                      <ReviewForm
+                        providerName={booking.providerName || "your provider"}
+                        loading={ratingLoadingId === booking.id}
+                        onSubmit={(input) => reviewProvider(booking, input)}
+                        onCancel={() => setReviewingId(null)}
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setReviewingId(booking.id);
+                          setRatingError(null);
+                        }}
+                        className="mt-3 rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+                      >
+                        Write a review
+                      </button>
+                    )
+                  ) : null}
+
                   {booking.customerRating ? (
                     <p className="mt-3 text-xs font-semibold uppercase tracking-[0.14em] text-emerald-700">
                       You rated this provider: {booking.customerRating}/5
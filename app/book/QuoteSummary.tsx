@@ -0,0 +1,75 @@
+"use client";
+
+import { formatDateKey } from "@/lib/availability";
+import type { BookingStatus } from "@/lib/bookingStatus";
+import { formatPrice } from "@/lib/pricing";
+import { isQuoteExpired, parseQuote } from "@/lib/quotes";
+
+type QuoteSummaryProps = {
+  booking: { status?: BookingStatus; quote?: unknown };
+  loading: boolean;
+  onRespond: (accept: boolean) => void;
+};
+
+export default function QuoteSummary({ booking, loading, onRespond }: QuoteSummaryProps) {
+  const quote = parseQuote(booking.quote);
+  if (!quote) return null;
+
+  const awaitingAnswer = booking.status === "quoted";
+  const expired = awaitingAnswer && isQuoteExpired(quote);
+
+  return (
+    <div className="mt-3 space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+          Quote
+        </p>
+        <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+          {expired ? "Expired" : "Valid until"} {formatDateKey(quote.validUntil)}
+        </p>
+      </div>
+      <ul className="space-y-1">
+        {quote.items.map((item, index) => (
+          <li key={`${item.description}-${index}`} className="flex justify-between gap-3">
+            <span>{item.description}</span>
+            <span>{formatPrice(item.amount)}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-between border-t border-[var(--prime-sand)] pt-2 font-semibold">
+        <span>Total</span>
+        <span>{formatPrice(quote.total)}</span>
+      </div>
+      {quote.note ? (
+        <p className="text-xs text-[color:rgba(20,21,22,0.7)]">&ldquo;{quote.note}&rdquo;</p>
+      ) : null}
+
+      {expired ? (
+        <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          This quote has expired. Ask the provider for an updated quote or decline it.
+        </p>
+      ) : null}
+
+      {awaitingAnswer ? (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => onRespond(true)}
+            disabled={loading || expired}
+            className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            Accept quote
+          </button>
+          <button
+            type="button"
+            onClick={() => onRespond(false)}
+            disabled={loading}
+            className="rounded-full border border-red-500 px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-red-600 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            Decline
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_REVIEW_LENGTH,
+  REVIEW_CRITERIA,
+  reviewCriterionLabels,
+  validateReview,
+  type CriteriaScores,
+  type ReviewInput,
+} from "@/lib/reviews";
+
+type ReviewFormProps = {
+  providerName: string;
+  loading: boolean;
+  onSubmit: (input: ReviewInput) => void;
+  onCancel: () => void;
+};
+
+const SCORES = [1, 2, 3, 4, 5];
+
+function ScoreRow({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <span className="text-xs font-semibold uppercase tracking-[0.14em]">{label}</span>
+      <div className="flex gap-1">
+        {SCORES.map((score) => (
+          <button
+            key={score}
+            type="button"
+            onClick={() => onChange(score)}
+            aria-pressed={value === score}
+            className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+              value === score
+                ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                : "border-[var(--prime-forest)] text-[var(--prime-forest)] hover:bg-[var(--prime-forest)] hover:text-white"
+            }`}
+          >
+            {score}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewForm({ providerName, loading, onSubmit, onCancel }: ReviewFormProps) {
+  const [rating, setRating] = useState(0);
+  const [scores, setScores] = useState<Partial<CriteriaScores>>({});
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = () => {
+    const input = { rating, scores, comment };
+    const message = validateReview(input);
+    if (message) {
+      setError(message);
+      return;
+    }
+    setError(null);
+    onSubmit(input);
+  };
+
+  return (
+    <div className="mt-3 space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+      <p className="text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+        Review {providerName}
+      </p>
+      <ScoreRow label="Overall" value={rating} onChange={setRating} />
+      {REVIEW_CRITERIA.map((criterion) => (
+        <ScoreRow
+          key={criterion}
+          label={reviewCriterionLabels[criterion]}
+          value={scores[criterion]}
+          onChange={(value) => setScores((prev) => ({ ...prev, [criterion]: value }))}
+        />
+      ))}
+      <label className="grid gap-2 text-xs font-semibold uppercase tracking-[0.14em]">
+        Your review (optional)
+        <textarea
+          rows={3}
+          value={comment}
+          maxLength={MAX_REVIEW_LENGTH}
+          onChange={(event) => setComment(event.target.value)}
+          placeholder="What went well, and what could be better?"
+          className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm font-normal normal-case tracking-normal outline-none transition focus:border-[var(--prime-forest)]"
+        />
+      </label>
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={loading}
+          className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {loading ? "Submitting..." : "Submit review"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+        >
+          Not now
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,39 +1,7 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-
-const services = [
-  {
-    title: "Home Cleaning",
-    description: "Deep cleans, recurring upkeep, move-in or move-out refreshes.",
-    tag: "From 2 hrs",
-  },
-  {
-    title: "Plumbing & Repairs",
-    description: "Leaks, installations, water heaters, and urgent fixes.",
-    tag: "Emergency-ready",
-  },
-  {
-    title: "Electrical Work",
-    description: "Lighting, outlets, rewiring, and safety inspections.",
-    tag: "Licensed pros",
-  },
-  {
-    title: "Caregiving",
-    description: "Trusted support for seniors, kids, and daily routines.",
-    tag: "Background-checked",
-  },
-  {
-    title: "Handyman",
-    description: "Assembly, mounting, repairs, and small renovations.",
-    tag: "Same-day slots",
-  },
-  {
-    title: "Outdoor Care",
-    description: "Gardening, lawn service, and seasonal maintenance.",
-    tag: "Weekly plans",
-  },
-];
+import { useServiceCatalog } from "@/lib/useServiceCatalog";
 
 const steps = [
   {
@@ -67,6 +35,7 @@ const trust = [
 
 export default function Home() {
   const router = useRouter();
+  const { services } = useServiceCatalog();
 
   return (
     <div className="bg-[var(--background)] text-[var(--foreground)]">
@@ -229,28 +198,37 @@ export default function Home() {
         <div className="mt-10 grid gap-6 md:grid-cols-2 xl:grid-cols-3">
           {services.map((service) => (
             <div
-              key={service.title}
+              key={service.slug}
               className="group rounded-[28px] border border-white/60 bg-white/70 p-6 shadow-[0_16px_40px_rgba(15,42,34,0.08)] transition hover:-translate-y-1 hover:shadow-[0_24px_60px_rgba(15,42,34,0.12)]"
             >
               <span className="inline-flex items-center rounded-full bg-[var(--prime-sand)] px-3 py-1 text-xs font-semibold text-[var(--prime-forest)]">
                 {service.tag}
               </span>
               <h3 className="mt-4 text-xl font-semibold text-[var(--prime-ink)]">
+                {service.icon ? `${service.icon} ` : ""}
                 {service.title}
               </h3>
               <p className="mt-2 text-sm text-[color:rgba(20,21,22,0.7)]">
                 {service.description}
               </p>
-              <button
-                onClick={() =>
-                  router.push(
-                    `/providers?service=${encodeURIComponent(service.title)}`
-                  )
-                }
-                className="mt-6 text-xs font-semibold uppercase tracking-[0.22em] text-[var(--prime-copper)]"
-              >
-                View providers
-              </button>
+              <div className="mt-6 flex flex-wrap gap-6">
+                <button
+                  onClick={() =>
+                    router.push(
+                      `/providers?service=${encodeURIComponent(service.title)}`
+                    )
+                  }
+                  className="text-xs font-semibold uppercase tracking-[0.22em] text-[var(--prime-copper)]"
+                >
+                  View providers
+                </button>
+                <button
+                  onClick={() => router.push(`/services/${service.slug}`)}
+                  className="text-xs font-semibold uppercase tracking-[0.22em] text-[var(--prime-ink)]"
+                >
+                  Details
+                </button>
+              </div>
             </div>
           ))}
         </div>
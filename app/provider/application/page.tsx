@@ -12,7 +12,9 @@ import {
   where,
   getDoc,
 } from "firebase/firestore";
+import NotificationSettings from "@/components/NotificationSettings";
 import { auth, db } from "@/lib/firebase";
+import { formatTimestampLocal } from "@/lib/timezones";
 
 type ViewState = "checking" | "ready" | "error";
 
@@ -71,15 +73,6 @@ const statusMeta: Record<string, { title: string; details: string; tone: string
   },
 };
 
-function formatTimestamp(value?: Timestamp): string {
-  if (!value) return "-";
-  try {
-    return value.toDate().toLocaleString();
-  } catch {
-    return "-";
-  }
-}
-
 export default function ProviderApplicationStatusPage() {
   const router = useRouter();
   const [viewState, setViewState] = useState<ViewState>("checking");
@@ -233,10 +226,10 @@ export default function ProviderApplicationStatusPage() {
                   <span className="font-semibold">Availability:</span> {application.availability || "-"}
                 </p>
                 <p>
-                  <span className="font-semibold">Submitted:</span> {formatTimestamp(application.createdAt)}
+                  <span className="font-semibold">Submitted:</span> {formatTimestampLocal(application.createdAt)}
                 </p>
                 <p>
-                  <span className="font-semibold">Last reviewed:</span> {formatTimestamp(application.reviewedAt)}
+                  <span className="font-semibold">Last reviewed:</span> {formatTimestampLocal(application.reviewedAt)}
                 </p>
               </div>
 
@@ -317,6 +310,15 @@ export default function ProviderApplicationStatusPage() {
                   </button>
                 ) : null}
               </div>
+
+              {application.providerUid ? (
+                <div className="mt-6">
+                  <NotificationSettings
+                    uid={application.providerUid}
+                    topics={["applicationUpdates"]}
+                  />
+                </div>
+              ) : null}
             </div>
           </div>
         )}
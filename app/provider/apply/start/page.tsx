@@ -4,29 +4,28 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { onAuthStateChanged } from "firebase/auth";
 import { addDoc, collection, doc, getDoc, serverTimestamp } from "firebase/firestore";
-import { getDownloadURL, ref, uploadBytes } from "firebase/storage";
-import { auth, db, storage } from "@/lib/firebase";
+import ServiceAreaFields from "@/components/ServiceAreaFields";
+import { auth, db } from "@/lib/firebase";
+import {
+  describeServiceArea,
+  parsePlaces,
+  parseServiceArea,
+  validateServiceArea,
+  type ServiceArea,
+} from "@/lib/geo";
+import { requestNotification } from "@/lib/notifications";
+import {
+  ACCEPTED_DOC_TYPES,
+  ACCEPTED_IMAGE_TYPES,
+  MAX_FILE_SIZE_BYTES,
+  uploadFile,
+  validateUpload,
+} from "@/lib/uploads";
+import { useServiceCatalog } from "@/lib/useServiceCatalog";
 
 type Status = "idle" | "loading" | "success" | "error";
 type FieldErrors = Partial<Record<string, string>>;
 
-type UploadedDocument = {
-  name: string;
-  url: string;
-  path: string;
-  contentType: string;
-  size: number;
-};
-
-const serviceOptions = [
-  "Home Cleaning",
-  "Plumbing & Repairs",
-  "Electrical Work",
-  "Caregiving",
-  "Handyman",
-  "Outdoor Care",
-];
-
 const availabilityOptions = [
   "Weekdays",
   "Weekends",
@@ -35,15 +34,6 @@ const availabilityOptions = [
   "Full-time",
 ];
 
-const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
-const ACCEPTED_DOC_TYPES = [
-  "image/jpeg",
-  "image/png",
-  "image/webp",
-  "application/pdf",
-];
-const ACCEPTED_SELFIE_TYPES = ["image/jpeg", "image/png", "image/webp"];
-
 function getFileFromFormData(formData: FormData, key: string): File | null {
   const entry = formData.get(key);
   if (!(entry instanceof File) || !entry.name || entry.size === 0) {
@@ -59,46 +49,29 @@ function validateFile(
   fieldLabel: string,
   errors: FieldErrors
 ) {
-  if (file.size > MAX_FILE_SIZE_BYTES) {
-    errors[fieldKey] = `${fieldLabel} must be 10MB or less.`;
-    return;
-  }
-
-  if (file.type && !allowedTypes.includes(file.type)) {
-    errors[fieldKey] = `${fieldLabel} must be a PDF, JPG, PNG, or WEBP file.`;
+  const message = validateUpload(file, allowedTypes, fieldLabel);
+  if (message) {
+    errors[fieldKey] = message;
   }
 }
 
-async function uploadDocument(
-  providerId: string,
-  folder: string,
-  file: File
-): Promise<UploadedDocument> {
-  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
-  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-  const path = `providerApplications/${providerId}/${folder}/${uniqueId}-${safeName}`;
-  const storageRef = ref(storage, path);
-
-  await uploadBytes(storageRef, file, {
-    contentType: file.type || "application/octet-stream",
-  });
-
-  const url = await getDownloadURL(storageRef);
-
-  return {
-    name: file.name,
-    url,
-    path,
-    contentType: file.type || "application/octet-stream",
-    size: file.size,
-  };
+function uploadDocument(providerId: string, folder: string, file: File) {
+  return uploadFile(`providerApplications/${providerId}/${folder}`, file);
 }
 
 export default function ProviderApplyStartPage() {
   const router = useRouter();
+  const { services: serviceOptions } = useServiceCatalog();
   const [status, setStatus] = useState<Status>("idle");
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [selectedService, setSelectedService] = useState("");
+  const [areaDraft, setAreaDraft] = useState<ServiceArea>(() => parseServiceArea(null));
+  const [areaPlaces, setAreaPlaces] = useState("");
+
+  const requiredCertifications =
+    serviceOptions.find((option) => option.title === selectedService)
+      ?.requiredCertifications || [];
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
@@ -139,7 +112,7 @@ export default function ProviderApplyStartPage() {
       : normalizedPhone.replace(/[^\d]/g, "");
     const service = String(formData.get("service") || "").trim();
     const experience = String(formData.get("experience") || "").trim();
-    const area = String(formData.get("area") || "").trim();
+    const serviceArea: ServiceArea = { ...areaDraft, places: parsePlaces(areaPlaces) };
     const availability = String(formData.get("availability") || "").trim();
     const hasInsurance = String(formData.get("insurance") || "").trim();
     const business = String(formData.get("business") || "").trim();
@@ -163,7 +136,8 @@ export default function ProviderApplyStartPage() {
     if (!rawPhone) nextErrors.phone = "Phone number is required.";
     if (!service) nextErrors.service = "Please select a service.";
     if (!experience) nextErrors.experience = "Experience is required.";
-    if (!area) nextErrors.area = "Service area is required.";
+    const areaError = validateServiceArea(serviceArea);
+    if (areaError) nextErrors.area = areaError;
     if (!availability) nextErrors.availability = "Please select availability.";
     if (!hasInsurance) nextErrors.insurance = "Please select an option.";
     if (!backgroundConsent)
@@ -199,7 +173,7 @@ export default function ProviderApplyStartPage() {
     if (selfie) {
       validateFile(
         selfie,
-        ACCEPTED_SELFIE_TYPES,
+        ACCEPTED_IMAGE_TYPES,
         "selfie",
         "Selfie",
         nextErrors
@@ -224,6 +198,10 @@ export default function ProviderApplyStartPage() {
       );
     }
 
+    if (requiredCertifications.length > 0 && certifications.length === 0) {
+      nextErrors.certifications = `${service} requires: ${requiredCertifications.join(", ")}.`;
+    }
+
     for (const file of certifications) {
       if (file.size > MAX_FILE_SIZE_BYTES) {
         nextErrors.certifications = "Each certification file must be 10MB or less.";
@@ -258,14 +236,15 @@ export default function ProviderApplyStartPage() {
         )
       );
 
-      await addDoc(collection(db, "providerApplications"), {
+      const applicationRef = await addDoc(collection(db, "providerApplications"), {
         providerUid: currentUser.uid,
         name,
         email,
         phone: sanitizedPhone,
         service,
         experience,
-        area,
+        area: describeServiceArea(serviceArea),
+        serviceArea,
         availability,
         hasInsurance,
         business,
@@ -283,6 +262,7 @@ export default function ProviderApplyStartPage() {
         reviewRequired: true,
         createdAt: serverTimestamp(),
       });
+      void requestNotification("application", applicationRef.id);
 
       setStatus("success");
       router.push("/provider/application");
@@ -359,6 +339,7 @@ export default function ProviderApplyStartPage() {
               <select
                 name="service"
                 defaultValue=""
+                onChange={(event) => setSelectedService(event.target.value)}
                 aria-invalid={Boolean(fieldErrors.service)}
                 className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)] aria-[invalid=true]:border-red-400"
               >
@@ -366,8 +347,8 @@ export default function ProviderApplyStartPage() {
                   Select a service
                 </option>
                 {serviceOptions.map((option) => (
-                  <option key={option} value={option}>
-                    {option}
+                  <option key={option.slug} value={option.title}>
+                    {option.title}
                   </option>
                 ))}
               </select>
@@ -389,16 +370,20 @@ export default function ProviderApplyStartPage() {
             {fieldErrors.experience ? (
               <p className="text-xs text-red-600">{fieldErrors.experience}</p>
             ) : null}
-            <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
-              Service area
-              <input
-                name="area"
-                type="text"
-                placeholder="Johannesburg Central"
-                aria-invalid={Boolean(fieldErrors.area)}
-                className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)] aria-[invalid=true]:border-red-400"
+            <div className="grid gap-3">
+              <div>
+                <p className="text-sm font-medium text-[var(--prime-ink)]">Service area</p>
+                <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                  Customers will see you for addresses inside this area.
+                </p>
+              </div>
+              <ServiceAreaFields
+                area={areaDraft}
+                places={areaPlaces}
+                onAreaChange={setAreaDraft}
+                onPlacesChange={setAreaPlaces}
               />
-            </label>
+            </div>
             {fieldErrors.area ? (
               <p className="text-xs text-red-600">{fieldErrors.area}</p>
             ) : null}
@@ -522,7 +507,9 @@ export default function ProviderApplyStartPage() {
               ) : null}
 
               <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
-                Certifications (optional)
+                {requiredCertifications.length > 0
+                  ? `Certifications (required: ${requiredCertifications.join(", ")})`
+                  : "Certifications (optional)"}
                 <input
                   name="certifications"
                   type="file"
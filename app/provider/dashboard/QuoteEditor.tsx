@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { toDateKey } from "@/lib/availability";
+import { formatPrice } from "@/lib/pricing";
+import {
+  MAX_QUOTE_ITEMS,
+  quoteTotal,
+  validateQuote,
+  type Quote,
+  type QuoteLineItem,
+} from "@/lib/quotes";
+
+const DEFAULT_VALIDITY_DAYS = 14;
+
+type QuoteEditorProps = {
+  initialQuote: Quote | null;
+  saving: boolean;
+  onSubmit: (quote: { items: QuoteLineItem[]; validUntil: string; note: string }) => void;
+  onClose: () => void;
+};
+
+function defaultValidUntil(): string {
+  const value = new Date();
+  value.setDate(value.getDate() + DEFAULT_VALIDITY_DAYS);
+  return toDateKey(value);
+}
+
+export default function QuoteEditor({ initialQuote, saving, onSubmit, onClose }: QuoteEditorProps) {
+  const [items, setItems] = useState<QuoteLineItem[]>(
+    initialQuote?.items.length ? initialQuote.items : [{ description: "", amount: 0 }]
+  );
+  const [validUntil, setValidUntil] = useState(initialQuote?.validUntil || defaultValidUntil());
+  const [note, setNote] = useState(initialQuote?.note || "");
+  const [error, setError] = useState<string | null>(null);
+
+  const updateItem = (index: number, patch: Partial<QuoteLineItem>) => {
+    setItems((prev) =>
+      prev.map((item, itemIndex) => (itemIndex === index ? { ...item, ...patch } : item))
+    );
+  };
+
+  const submit = () => {
+    const validationError = validateQuote(items, validUntil);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    onSubmit({ items, validUntil, note });
+  };
+
+  return (
+    <div className="mt-4 space-y-4 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+      {error ? (
+        <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+
+      <div className="space-y-2">
+        <p className="font-medium">Line items</p>
+        {items.map((item, index) => (
+          <div key={index} className="flex flex-wrap gap-2">
+            <input
+              value={item.description}
+              onChange={(event) => updateItem(index, { description: event.target.value })}
+              placeholder="Replace kitchen tap cartridge"
+              className="min-w-0 flex-1 rounded-xl border border-[var(--prime-sand)] px-3 py-2"
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={item.amount}
+              onChange={(event) => updateItem(index, { amount: Number(event.target.value) })}
+              className="w-28 rounded-xl border border-[var(--prime-sand)] px-3 py-2"
+            />
+            <button
+              type="button"
+              onClick={() => setItems((prev) => prev.filter((_, itemIndex) => itemIndex !== index))}
+              disabled={items.length === 1}
+              className="rounded-full border border-red-500 px-3 py-1 text-xs font-semibold text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setItems((prev) => [...prev, { description: "", amount: 0 }])}
+          disabled={items.length >= MAX_QUOTE_ITEMS}
+          className="rounded-full border border-[var(--prime-forest)] px-3 py-1 text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Add line
+        </button>
+        <p className="font-semibold">Total {formatPrice(quoteTotal(items))}</p>
+      </div>
+
+      <label className="grid gap-2 font-medium">
+        Valid until
+        <input
+          type="date"
+          min={toDateKey(new Date())}
+          value={validUntil}
+          onChange={(event) => setValidUntil(event.target.value)}
+          className="w-fit rounded-xl border border-[var(--prime-sand)] px-3 py-2"
+        />
+      </label>
+
+      <label className="grid gap-2 font-medium">
+        Note to customer (optional)
+        <textarea
+          rows={2}
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          className="rounded-2xl border border-[var(--prime-sand)] px-4 py-3 outline-none transition focus:border-[var(--prime-forest)]"
+        />
+      </label>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={saving}
+          className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving ? "Sending..." : initialQuote ? "Send revised quote" : "Send quote"}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { onAuthStateChanged } from "firebase/auth";
 import {
@@ -15,10 +15,106 @@ import {
   updateDoc,
   where,
 } from "firebase/firestore";
+import AttachmentList from "@/components/AttachmentList";
+import CalendarFeedPanel from "@/components/CalendarFeedPanel";
+import MessageThread from "@/components/MessageThread";
+import NotificationBell from "@/components/NotificationBell";
+import NotificationSettings from "@/components/NotificationSettings";
+import ReportReviewButton from "@/components/ReportReviewButton";
+import ServiceAreaFields from "@/components/ServiceAreaFields";
+import SlotPicker from "@/components/SlotPicker";
+import {
+  computeAvailability,
+  loadBookedSlots,
+  type BookedSlot,
+  type DayAvailability,
+} from "@/lib/availability";
+import {
+  loadBookingAccess,
+  MAX_PROPOSED_TIMES,
+  proposeReschedule,
+  transitionBooking,
+} from "@/lib/bookings";
+import { respondToSeries, skipOccurrence } from "@/lib/bookingSeries";
+import {
+  claimBroadcastRequest,
+  isOpenOffer,
+  passBroadcastRequest,
+} from "@/lib/broadcastRequests";
+import {
+  bookingStatusLabels,
+  toBookingStatus,
+  type BookingStatus,
+  type StatusHistoryEntry,
+} from "@/lib/bookingStatus";
+import {
+  accessDetails,
+  locationDetails,
+  parseSavedAddress,
+  withoutPrivateAccess,
+  type PrivateAccess,
+} from "@/lib/addresses";
 import { auth, db } from "@/lib/firebase";
+import {
+  coverageFor,
+  formatDistance,
+  hasServiceArea,
+  parseAddress,
+  parsePlaces,
+  parseServiceArea,
+  validateServiceArea,
+  type ServiceArea,
+} from "@/lib/geo";
+import { unreadCount, type MessageRole } from "@/lib/messages";
+import {
+  defaultServicePricing,
+  formatPrice,
+  parsePricing,
+  priceForService,
+  validateServicePricing,
+  type PriceBreakdown,
+  type ProviderPricing,
+  type ServicePricing,
+} from "@/lib/pricing";
+import {
+  BUFFER_OPTIONS,
+  parseSchedule,
+  SLOT_LENGTH_OPTIONS,
+  validateSchedule,
+  WEEKDAY_LABELS,
+  type ProviderSchedule,
+  type WorkingDay,
+} from "@/lib/schedule";
+import { parseQuote, sendQuote, type QuoteLineItem } from "@/lib/quotes";
+import {
+  MAX_REPLY_LENGTH,
+  parseCriteriaAverages,
+  replyToReview,
+  REVIEW_CRITERIA,
+  reviewCriterionLabels,
+  subscribeProviderReviews,
+  type CriteriaAverages,
+  type Review,
+} from "@/lib/reviews";
+import { AWAITING_PROVIDER_STATUSES, respondByFor } from "@/lib/requestExpiry";
+import type { PrivateFile } from "@/lib/uploads";
+import {
+  browserTimeZone,
+  DEFAULT_TIME_ZONE,
+  formatBookingTime,
+  formatInTimeZone,
+  formatTimestampLocal,
+  timeZoneLabel,
+  timeZoneOptions,
+} from "@/lib/timezones";
+import { useHashTarget } from "@/lib/useHashTarget";
+import { useServiceCatalog } from "@/lib/useServiceCatalog";
+import QuoteEditor from "./QuoteEditor";
+
+const RECENT_REVIEW_LIMIT = 10;
 
 type AccessState = "checking" | "active" | "blocked" | "error";
-type Tab = "overview" | "requests" | "profile";
+type Tab = "overview" | "requests" | "schedule" | "profile";
 
 type ProviderProfile = {
   displayName: string;
@@ -28,49 +124,93 @@ type ProviderProfile = {
   isOnline: boolean;
   rating: number;
   reviewCount: number;
+  criteriaRatings: CriteriaAverages;
   isApproved: boolean;
+  schedule: ProviderSchedule;
+  pricing: ProviderPricing;
+  serviceArea: ServiceArea;
 };
 
 type BookingRequest = {
   id: string;
   customerName?: string;
   customerEmail?: string;
+  providerUid?: string;
   service?: string;
   date?: string;
   time?: string;
   address?: string;
+  serviceAddress?: unknown;
+  location?: unknown;
   notes?: string;
-  status?: string;
+  status?: BookingStatus;
+  statusHistory?: StatusHistoryEntry[];
+  cancellationReason?: string;
+  cancelledBy?: string;
+  previousDate?: string | null;
+  previousTime?: string | null;
+  rescheduledBy?: string;
+  proposedTimes?: BookedSlot[];
+  proposalNote?: string;
+  seriesId?: string;
+  seriesSummary?: string;
+  occurrenceIndex?: number;
+  occurrenceCount?: number;
+  estimatedHours?: number;
+  startAt?: Timestamp;
+  timeZone?: string;
+  respondBy?: Timestamp;
+  price?: PriceBreakdown | null;
+  quote?: unknown;
+  attachments?: PrivateFile[];
+  unread?: Partial<Record<MessageRole, number>>;
   createdAt?: Timestamp;
 };
 
 type ProviderApplication = {
   service?: string;
   name?: string;
+  serviceArea?: unknown;
   status?: string;
   createdAt?: Timestamp;
 };
 
-const serviceOptions = [
-  "Home Cleaning",
-  "Plumbing & Repairs",
-  "Electrical Work",
-  "Caregiving",
-  "Handyman",
-  "Outdoor Care",
-];
-
-function formatTimestamp(value?: Timestamp): string {
-  if (!value) return "-";
-  try {
-    return value.toDate().toLocaleString();
-  } catch {
-    return "-";
-  }
+function travelDistance(request: BookingRequest, area: ServiceArea | undefined): string {
+  const location = parseAddress(request.location);
+  if (!location || !area) return "";
+  const { distanceKm } = coverageFor(area, location);
+  return distanceKm === null ? "" : ` (${formatDistance(distanceKm)})`;
+}
+
+// Structured fields from the customer's saved address; older bookings only
+// have the one-line address. The gate code and access notes aren't on the
+// booking; `access` holds them once this provider has accepted the job.
+// Bookings saved before that still carry them, so they are hidden until then.
+function visitDetails(
+  request: BookingRequest,
+  access: Partial<PrivateAccess> | null
+): { label: string; value: string }[] {
+  const saved = parseSavedAddress(request.serviceAddress);
+  if (!saved) return [];
+  const visible = access ? { ...saved, ...access } : withoutPrivateAccess(saved);
+  return [...locationDetails(saved), ...accessDetails(visible)];
+}
+
+// Unanswered requests expire at this point and the customer can send them on.
+function formatRespondBy(request: BookingRequest): string {
+  const deadline = respondByFor(request);
+  return deadline ? formatInTimeZone(deadline, request.timeZone || DEFAULT_TIME_ZONE) : "-";
+}
+
+function summarizeQuote(value: unknown): string {
+  const quote = parseQuote(value);
+  if (!quote) return "-";
+  return `${formatPrice(quote.total)}, valid until ${quote.validUntil}`;
 }
 
 export default function ProviderDashboardPage() {
   const router = useRouter();
+  const { services: serviceOptions } = useServiceCatalog();
   const [accessState, setAccessState] = useState<AccessState>("checking");
   const [error, setError] = useState<string | null>(null);
   const [tab, setTab] = useState<Tab>("overview");
@@ -78,11 +218,35 @@ export default function ProviderDashboardPage() {
   const [providerUid, setProviderUid] = useState<string | null>(null);
   const [providerProfile, setProviderProfile] = useState<ProviderProfile | null>(null);
   const [bookingRequests, setBookingRequests] = useState<BookingRequest[]>([]);
+  const [openOffers, setOpenOffers] = useState<BookingRequest[]>([]);
+  const [privateAccess, setPrivateAccess] = useState<Record<string, PrivateAccess>>({});
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [offerLoadingId, setOfferLoadingId] = useState<string | null>(null);
   const [savingProfile, setSavingProfile] = useState(false);
 
   const [profileName, setProfileName] = useState("");
   const [profileBio, setProfileBio] = useState("");
   const [profileServices, setProfileServices] = useState<string[]>([]);
+  const [pricingDraft, setPricingDraft] = useState<ProviderPricing>({});
+  const [areaDraft, setAreaDraft] = useState<ServiceArea>(() => parseServiceArea(null));
+  const [areaPlaces, setAreaPlaces] = useState("");
+
+  const [scheduleDraft, setScheduleDraft] = useState<ProviderSchedule>(() => parseSchedule(null));
+  const [blockedDateInput, setBlockedDateInput] = useState("");
+  const [savingSchedule, setSavingSchedule] = useState(false);
+
+  const [proposalBookingId, setProposalBookingId] = useState<string | null>(null);
+  const [proposalAvailability, setProposalAvailability] = useState<DayAvailability[]>([]);
+  const [proposalPick, setProposalPick] = useState<BookedSlot>({ date: "", time: "" });
+  const [proposalTimes, setProposalTimes] = useState<BookedSlot[]>([]);
+  const [proposalNote, setProposalNote] = useState("");
+  const [proposalLoading, setProposalLoading] = useState(false);
+
+  const [quoteBookingId, setQuoteBookingId] = useState<string | null>(null);
+  const [quoteSaving, setQuoteSaving] = useState(false);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
 
   useEffect(() => {
     let unsubscribeApps: (() => void) | null = null;
@@ -150,9 +314,15 @@ export default function ProviderDashboardPage() {
 
             setAccessState("active");
 
-            await setDoc(
-              doc(db, "providerProfiles", user.uid),
-              {
+            // Only seed the profile once; rewriting it on every visit would
+            // reset the provider's bio, availability and review averages.
+            // Profiles made before service areas existed pick up the one from
+            // the application when it has one.
+            const profileRef = doc(db, "providerProfiles", user.uid);
+            const existingProfile = await getDoc(profileRef);
+            const applicationArea = parseServiceArea(latest?.serviceArea);
+            if (!existingProfile.exists()) {
+              await setDoc(profileRef, {
                 displayName: latest?.name || user.displayName || "Provider",
                 bio: "",
                 services: latest?.service ? [latest.service] : [],
@@ -161,10 +331,22 @@ export default function ProviderDashboardPage() {
                 rating: 5,
                 reviewCount: 0,
                 isApproved: true,
+                ...(hasServiceArea(applicationArea) ? { serviceArea: applicationArea } : {}),
                 updatedAt: serverTimestamp(),
-              },
-              { merge: true }
-            );
+              });
+            } else {
+              const existing = existingProfile.data();
+              const backfillArea =
+                hasServiceArea(applicationArea) &&
+                !hasServiceArea(parseServiceArea(existing.serviceArea));
+              if (!existing.isApproved || backfillArea) {
+                await updateDoc(profileRef, {
+                  isApproved: true,
+                  ...(backfillArea ? { serviceArea: applicationArea } : {}),
+                  updatedAt: serverTimestamp(),
+                });
+              }
+            }
 
             unsubscribeProfile = onSnapshot(doc(db, "providerProfiles", user.uid), (profileSnap) => {
               if (!profileSnap.exists()) return;
@@ -179,13 +361,21 @@ export default function ProviderDashboardPage() {
                 isOnline: Boolean(data.isOnline),
                 rating: Number(data.rating || 0),
                 reviewCount: Number(data.reviewCount || 0),
+                criteriaRatings: parseCriteriaAverages(data.criteriaRatings),
                 isApproved: Boolean(data.isApproved),
+                schedule: parseSchedule(data.schedule),
+                pricing: parsePricing(data.pricing),
+                serviceArea: parseServiceArea(data.serviceArea),
               };
 
               setProviderProfile(nextProfile);
               setProfileName(nextProfile.displayName);
               setProfileBio(nextProfile.bio);
               setProfileServices(nextProfile.services);
+              setScheduleDraft(nextProfile.schedule);
+              setPricingDraft(nextProfile.pricing);
+              setAreaDraft(nextProfile.serviceArea);
+              setAreaPlaces(nextProfile.serviceArea.places.join(", "));
             });
 
             const bookingsQuery = query(
@@ -227,8 +417,93 @@ export default function ProviderDashboardPage() {
     };
   }, [router]);
 
+  useEffect(() => {
+    if (!providerUid || accessState !== "active") {
+      setReviews([]);
+      return;
+    }
+    return subscribeProviderReviews(providerUid, setReviews);
+  }, [providerUid, accessState]);
+
+  // Broadcast requests this provider could still claim. They move into
+  // bookingRequests once claimed, and vanish when someone else claims them.
+  useEffect(() => {
+    if (!providerUid || accessState !== "active") {
+      setOpenOffers([]);
+      return;
+    }
+
+    const offersQuery = query(
+      collection(db, "bookings"),
+      where("candidateProviderUids", "array-contains", providerUid)
+    );
+
+    const unsubscribe = onSnapshot(offersQuery, (snapshot) => {
+      setOpenOffers(
+        snapshot.docs
+          .filter((docSnap) => isOpenOffer(docSnap.data(), providerUid))
+          .map((docSnap) => {
+            const data = docSnap.data() as Omit<BookingRequest, "id">;
+            return { id: docSnap.id, ...data };
+          })
+      );
+    });
+
+    return () => unsubscribe();
+  }, [providerUid, accessState]);
+
+  // Gate codes and access notes are only readable once this provider has
+  // accepted the booking, so they are fetched per accepted booking.
+  const acceptedIds = useMemo(
+    () =>
+      bookingRequests
+        .filter((request) => request.status === "accepted" && request.providerUid === providerUid)
+        .map((request) => request.id)
+        .join(","),
+    [bookingRequests, providerUid]
+  );
+
+  useEffect(() => {
+    const missing = acceptedIds.split(",").filter(Boolean);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      missing.map(async (bookingId) => [bookingId, await loadBookingAccess(bookingId)] as const)
+    ).then((entries) => {
+      if (cancelled) return;
+      setPrivateAccess(
+        Object.fromEntries(
+          entries.filter((entry): entry is [string, PrivateAccess] => entry[1] !== null)
+        )
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [acceptedIds]);
+
+  const showHashTarget = useCallback((targetId: string) => {
+    if (targetId.startsWith("booking-")) setTab("requests");
+  }, []);
+  useHashTarget(bookingRequests.length + openOffers.length > 0, showHashTarget);
+
+  const timeZoneChoices = useMemo(() => {
+    const zones = timeZoneOptions();
+    return zones.includes(scheduleDraft.timeZone) ? zones : [scheduleDraft.timeZone, ...zones];
+  }, [scheduleDraft.timeZone]);
+
   const pendingRequests = useMemo(
-    () => bookingRequests.filter((request) => request.status === "requested"),
+    () =>
+      bookingRequests.filter(
+        (request) => request.status === "requested" || request.status === "quote_requested"
+      ),
+    [bookingRequests]
+  );
+
+  const unreadMessages = useMemo(
+    () => bookingRequests.reduce((total, request) => total + unreadCount(request, "provider"), 0),
     [bookingRequests]
   );
 
@@ -237,13 +512,14 @@ export default function ProviderDashboardPage() {
     [bookingRequests]
   );
 
-  const updateBookingStatus = async (bookingId: string, nextStatus: string) => {
+  const updateBookingStatus = async (bookingId: string, nextStatus: BookingStatus) => {
     if (!providerUid) return;
     try {
-      await updateDoc(doc(db, "bookings", bookingId), {
-        status: nextStatus,
-        updatedAt: serverTimestamp(),
-        providerUpdatedBy: providerUid,
+      await transitionBooking({
+        bookingId,
+        to: nextStatus,
+        actor: { uid: providerUid, role: "provider" },
+        fields: { providerUpdatedBy: providerUid },
       });
     } catch (err) {
       const message =
@@ -252,6 +528,125 @@ export default function ProviderDashboardPage() {
     }
   };
 
+  const respondToOffer = async (bookingId: string, claim: boolean) => {
+    if (!providerUid) return;
+
+    setOfferLoadingId(bookingId);
+    try {
+      if (claim) {
+        await claimBroadcastRequest(bookingId, {
+          uid: providerUid,
+          name: providerProfile?.displayName || "Provider",
+        });
+      } else {
+        await passBroadcastRequest(bookingId, providerUid);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to respond to this request.");
+    } finally {
+      setOfferLoadingId(null);
+    }
+  };
+
+  const updateSeries = async (seriesId: string, nextStatus: "accepted" | "declined") => {
+    if (!providerUid) return;
+    try {
+      await respondToSeries(seriesId, { uid: providerUid, role: "provider" }, nextStatus);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unable to update booking series.";
+      setError(message);
+    }
+  };
+
+  const skipVisit = async (bookingId: string) => {
+    if (!providerUid) return;
+    try {
+      await skipOccurrence(bookingId, { uid: providerUid, role: "provider" });
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unable to skip this visit.";
+      setError(message);
+    }
+  };
+
+  const submitQuote = async (
+    bookingId: string,
+    quote: { items: QuoteLineItem[]; validUntil: string; note: string }
+  ) => {
+    if (!providerUid) return;
+
+    setQuoteSaving(true);
+    try {
+      await sendQuote(bookingId, { uid: providerUid, role: "provider" }, quote);
+      setQuoteBookingId(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to send quote.";
+      setError(message);
+    } finally {
+      setQuoteSaving(false);
+    }
+  };
+
+  const openProposal = async (request: BookingRequest) => {
+    if (!providerUid || !providerProfile) return;
+
+    setProposalBookingId(request.id);
+    setProposalPick({ date: "", time: "" });
+    setProposalTimes([]);
+    setProposalNote("");
+    setProposalAvailability([]);
+    setProposalLoading(true);
+
+    try {
+      const booked = await loadBookedSlots(providerUid, { excludeBookingId: request.id });
+      // The customer's requested time is what doesn't work, so don't offer it.
+      const current = request.date && request.time ? [{ date: request.date, time: request.time }] : [];
+      setProposalAvailability(
+        computeAvailability(providerProfile.schedule, [...booked, ...current], {
+          minutes: (Number(request.estimatedHours) || 0) * 60,
+        })
+      );
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unable to load your open slots.";
+      setError(message);
+    } finally {
+      setProposalLoading(false);
+    }
+  };
+
+  const addProposalTime = () => {
+    if (!proposalPick.date || !proposalPick.time) return;
+    setProposalTimes((prev) =>
+      prev.some((slot) => slot.date === proposalPick.date && slot.time === proposalPick.time)
+        ? prev
+        : [...prev, proposalPick].slice(0, MAX_PROPOSED_TIMES)
+    );
+    setProposalPick({ date: proposalPick.date, time: "" });
+  };
+
+  const sendProposal = async (bookingId: string) => {
+    if (!providerUid) return;
+
+    setProposalLoading(true);
+    try {
+      await proposeReschedule(
+        bookingId,
+        { uid: providerUid, role: "provider" },
+        proposalTimes,
+        proposalNote.trim()
+      );
+      setProposalBookingId(null);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unable to send proposal.";
+      setError(message);
+    } finally {
+      setProposalLoading(false);
+    }
+  };
+
   const updateAvailability = async (field: "acceptingBookings" | "isOnline", value: boolean) => {
     if (!providerUid) return;
     try {
@@ -279,6 +674,24 @@ export default function ProviderDashboardPage() {
       return;
     }
 
+    const pricing = Object.fromEntries(
+      profileServices.map((item) => [item, pricingDraft[item] || defaultServicePricing])
+    );
+    for (const [item, servicePricing] of Object.entries(pricing)) {
+      const pricingError = validateServicePricing(item, servicePricing);
+      if (pricingError) {
+        setError(pricingError);
+        return;
+      }
+    }
+
+    const serviceArea: ServiceArea = { ...areaDraft, places: parsePlaces(areaPlaces) };
+    const areaError = validateServiceArea(serviceArea);
+    if (areaError) {
+      setError(areaError);
+      return;
+    }
+
     setSavingProfile(true);
     setError(null);
 
@@ -287,6 +700,8 @@ export default function ProviderDashboardPage() {
         displayName: profileName.trim(),
         bio: profileBio.trim(),
         services: profileServices,
+        pricing,
+        serviceArea,
         updatedAt: serverTimestamp(),
       });
     } catch (err) {
@@ -298,6 +713,79 @@ export default function ProviderDashboardPage() {
     }
   };
 
+  const sendReply = async (review: Review) => {
+    if (!providerUid) return;
+
+    setReplyingId(review.id);
+    setError(null);
+    try {
+      await replyToReview(review.id, providerUid, replyDrafts[review.id] || "");
+      setReplyDrafts((prev) => ({ ...prev, [review.id]: "" }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to post your reply.");
+    } finally {
+      setReplyingId(null);
+    }
+  };
+
+  const updateServicePricing = (service: string, patch: Partial<ServicePricing>) => {
+    setPricingDraft((prev) => ({
+      ...prev,
+      [service]: { ...(prev[service] || defaultServicePricing), ...patch },
+    }));
+  };
+
+  const updateWorkingDay = (index: number, patch: Partial<WorkingDay>) => {
+    setScheduleDraft((prev) => ({
+      ...prev,
+      weeklyHours: prev.weeklyHours.map((day, dayIndex) =>
+        dayIndex === index ? { ...day, ...patch } : day
+      ),
+    }));
+  };
+
+  const addBlockedDate = () => {
+    if (!blockedDateInput) return;
+    setScheduleDraft((prev) => ({
+      ...prev,
+      blockedDates: Array.from(new Set([...prev.blockedDates, blockedDateInput])).sort(),
+    }));
+    setBlockedDateInput("");
+  };
+
+  const removeBlockedDate = (value: string) => {
+    setScheduleDraft((prev) => ({
+      ...prev,
+      blockedDates: prev.blockedDates.filter((item) => item !== value),
+    }));
+  };
+
+  const saveSchedule = async () => {
+    if (!providerUid) return;
+
+    const validationError = validateSchedule(scheduleDraft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSavingSchedule(true);
+    setError(null);
+
+    try {
+      await updateDoc(doc(db, "providerProfiles", providerUid), {
+        schedule: scheduleDraft,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unable to save schedule.";
+      setError(message);
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
   if (accessState === "checking") {
     return (
       <div className="min-h-screen bg-[var(--background)] px-6 py-16 text-[var(--prime-ink)]">
@@ -340,15 +828,18 @@ export default function ProviderDashboardPage() {
               Control your availability, review booking requests, and update your profile.
             </p>
           </div>
-          <button
-            onClick={async () => {
-              await auth.signOut();
-              router.push("/provider/sign-in");
-            }}
-            className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
-          >
-            Sign out
-          </button>
+          <div className="flex flex-wrap gap-3">
+            {providerUid ? <NotificationBell uid={providerUid} /> : null}
+            <button
+              onClick={async () => {
+                await auth.signOut();
+                router.push("/provider/sign-in");
+              }}
+              className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+            >
+              Sign out
+            </button>
+          </div>
         </header>
 
         {error ? (
@@ -360,7 +851,11 @@ export default function ProviderDashboardPage() {
         <nav className="flex flex-wrap gap-3">
           {[
             { key: "overview", label: "Overview" },
-            { key: "requests", label: "Booking requests" },
+            {
+              key: "requests",
+              label: unreadMessages > 0 ? `Booking requests (${unreadMessages})` : "Booking requests",
+            },
+            { key: "schedule", label: "Schedule" },
             { key: "profile", label: "Profile" },
           ].map((item) => (
             <button
@@ -424,16 +919,109 @@ export default function ProviderDashboardPage() {
             <div className="rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
               <p className="text-xs uppercase tracking-[0.16em] text-[var(--prime-copper)]">Bookings</p>
               <p className="mt-2 text-sm font-semibold">{pendingRequests.length} pending requests</p>
+              {openOffers.length > 0 ? (
+                <p className="mt-1 text-sm font-semibold text-[var(--prime-copper)]">
+                  {openOffers.length} open {openOffers.length === 1 ? "request" : "requests"} to
+                  claim
+                </p>
+              ) : null}
               <p className="mt-1 text-sm text-[color:rgba(20,21,22,0.7)]">
                 {acceptedRequests.length} accepted jobs
               </p>
+              {unreadMessages > 0 ? (
+                <p className="mt-1 text-sm font-semibold text-[var(--prime-copper)]">
+                  {unreadMessages} unread {unreadMessages === 1 ? "message" : "messages"}
+                </p>
+              ) : null}
             </div>
           </section>
         ) : null}
 
         {tab === "requests" ? (
           <section className="space-y-4">
-            {bookingRequests.length === 0 ? (
+            {openOffers.map((offer) => {
+              const estimate = providerProfile
+                ? priceForService(
+                    providerProfile.pricing,
+                    offer.service || "",
+                    Number(offer.estimatedHours) || 0
+                  )
+                : null;
+
+              return (
+                <article
+                  key={offer.id}
+                  id={`booking-${offer.id}`}
+                  className="scroll-mt-24 target:ring-2 target:ring-[var(--prime-copper)] rounded-[24px] border border-[var(--prime-copper)] bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]"
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <p className="text-lg font-semibold">{offer.service || "Service"}</p>
+                      <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
+                        {offer.customerName || "Customer"}
+                      </p>
+                    </div>
+                    <p className="text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-copper)]">
+                      Open request
+                    </p>
+                  </div>
+
+                  <div className="mt-4 grid gap-2 text-sm sm:grid-cols-2">
+                    <p>
+                      <span className="font-semibold">When:</span> {formatBookingTime(offer)}
+                    </p>
+                    <p>
+                      <span className="font-semibold">Address:</span> {offer.address || "-"}
+                      {travelDistance(offer, providerProfile?.serviceArea)}
+                    </p>
+                    <p>
+                      <span className="font-semibold">Your price:</span>{" "}
+                      {estimate
+                        ? `${formatPrice(estimate.total)}${
+                            offer.estimatedHours ? ` for ~${offer.estimatedHours} h` : ""
+                          }`
+                        : "Not priced yet"}
+                    </p>
+                    <p>
+                      <span className="font-semibold">Respond by:</span> {formatRespondBy(offer)}
+                    </p>
+                  </div>
+
+                  {offer.notes ? (
+                    <p className="mt-3 rounded-xl bg-[var(--prime-cream)] px-3 py-2 text-sm text-[color:rgba(20,21,22,0.75)]">
+                      <span className="font-semibold">Notes:</span> {offer.notes}
+                    </p>
+                  ) : null}
+
+                  <AttachmentList attachments={offer.attachments || []} />
+
+                  <p className="mt-3 text-xs text-[color:rgba(20,21,22,0.6)]">
+                    Sent to every provider free at this time. The first to accept gets the
+                    booking.
+                  </p>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => respondToOffer(offer.id, true)}
+                      disabled={offerLoadingId === offer.id}
+                      className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => respondToOffer(offer.id, false)}
+                      disabled={offerLoadingId === offer.id}
+                      className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-70"
+                    >
+                      Pass
+                    </button>
+                  </div>
+                </article>
+              );
+            })}
+
+            {bookingRequests.length === 0 && openOffers.length === 0 ? (
               <div className="rounded-[24px] border border-white/70 bg-white/70 p-5 text-sm text-[color:rgba(20,21,22,0.7)] shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
                 No booking requests yet.
               </div>
@@ -442,7 +1030,8 @@ export default function ProviderDashboardPage() {
             {bookingRequests.map((request) => (
               <article
                 key={request.id}
-                className="rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]"
+                id={`booking-${request.id}`}
+                className="scroll-mt-24 target:ring-2 target:ring-[var(--prime-copper)] rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]"
               >
                 <div className="flex flex-wrap items-start justify-between gap-3">
                   <div>
@@ -452,31 +1041,133 @@ export default function ProviderDashboardPage() {
                     </p>
                   </div>
                   <p className="text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-copper)]">
-                    {request.status || "requested"}
+                    {bookingStatusLabels[toBookingStatus(request.status)]}
                   </p>
                 </div>
 
                 <div className="mt-4 grid gap-2 text-sm sm:grid-cols-2">
                   <p>
-                    <span className="font-semibold">Date:</span> {request.date || "-"}
+                    <span className="font-semibold">When:</span> {formatBookingTime(request)}
                   </p>
                   <p>
-                    <span className="font-semibold">Time:</span> {request.time || "-"}
+                    <span className="font-semibold">Time zone:</span>{" "}
+                    {timeZoneLabel(request.timeZone || DEFAULT_TIME_ZONE)}
                   </p>
                   <p>
                     <span className="font-semibold">Address:</span> {request.address || "-"}
+                    {travelDistance(request, providerProfile?.serviceArea)}
+                  </p>
+                  <p>
+                    <span className="font-semibold">Requested:</span> {formatTimestampLocal(request.createdAt)}
                   </p>
                   <p>
-                    <span className="font-semibold">Requested:</span> {formatTimestamp(request.createdAt)}
+                    <span className="font-semibold">Estimate:</span>{" "}
+                    {request.price
+                      ? `${formatPrice(request.price.total)}${
+                          request.estimatedHours ? ` for ~${request.estimatedHours} h` : ""
+                        }`
+                      : "To be quoted"}
                   </p>
+                  {AWAITING_PROVIDER_STATUSES.includes(toBookingStatus(request.status)) ? (
+                    <p>
+                      <span className="font-semibold">Respond by:</span>{" "}
+                      {formatRespondBy(request)}
+                    </p>
+                  ) : null}
+                  {request.seriesId ? (
+                    <p className="sm:col-span-2">
+                      <span className="font-semibold">Recurring:</span> visit{" "}
+                      {request.occurrenceIndex} of {request.occurrenceCount} •{" "}
+                      {request.seriesSummary}
+                    </p>
+                  ) : null}
+                  {visitDetails(
+                    request,
+                    request.status === "accepted" && request.providerUid === providerUid
+                      ? privateAccess[request.id] || {}
+                      : null
+                  ).map((item) => (
+                    <p key={item.label} className="sm:col-span-2">
+                      <span className="font-semibold">{item.label}:</span> {item.value}
+                    </p>
+                  ))}
                 </div>
 
+                {request.status === "requested" && request.rescheduledBy === "customer" ? (
+                  <p className="mt-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                    Rescheduled by the customer
+                    {request.previousDate
+                      ? ` from ${request.previousDate} ${request.previousTime || ""}`
+                      : ""}
+                    . Please confirm the new time.
+                  </p>
+                ) : null}
+
+                {request.status === "cancelled" ? (
+                  <p className="mt-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                    Cancelled by {request.cancelledBy || "customer"}
+                    {request.cancellationReason ? `: ${request.cancellationReason}` : "."}
+                  </p>
+                ) : null}
+
                 {request.notes ? (
                   <p className="mt-3 rounded-xl bg-[var(--prime-cream)] px-3 py-2 text-sm text-[color:rgba(20,21,22,0.75)]">
-                    <span className="font-semibold">Notes:</span> {request.notes}
+                    <span className="font-semibold">
+                      {request.status === "quote_requested" ? "Job description:" : "Notes:"}
+                    </span>{" "}
+                    {request.notes}
                   </p>
                 ) : null}
 
+                <AttachmentList attachments={request.attachments || []} />
+
+                <div className="mt-3">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setOpenThreadId((prev) => (prev === request.id ? null : request.id))
+                    }
+                    className="rounded-full border border-[var(--prime-sand)] bg-white px-3 py-1 text-xs font-semibold text-[var(--prime-forest)]"
+                  >
+                    {openThreadId === request.id ? "Hide messages" : "Messages"}
+                    {unreadCount(request, "provider") > 0
+                      ? ` (${unreadCount(request, "provider")} unread)`
+                      : ""}
+                  </button>
+                  {openThreadId === request.id && providerUid ? (
+                    <MessageThread
+                      bookingId={request.id}
+                      viewer={{ uid: providerUid, role: "provider" }}
+                      counterpartName={request.customerName || "the customer"}
+                      unread={unreadCount(request, "provider")}
+                    />
+                  ) : null}
+                </div>
+
+                {request.quote ? (
+                  <p className="mt-3 text-sm">
+                    <span className="font-semibold">Quote sent:</span> {summarizeQuote(request.quote)}
+                  </p>
+                ) : null}
+
+                {request.statusHistory && request.statusHistory.length > 0 ? (
+                  <details className="mt-3 text-xs text-[color:rgba(20,21,22,0.7)]">
+                    <summary className="cursor-pointer font-semibold uppercase tracking-[0.12em]">
+                      Status history ({request.statusHistory.length})
+                    </summary>
+                    <ul className="mt-2 space-y-1">
+                      {request.statusHistory.map((entry, index) => (
+                        <li key={`${request.id}-history-${index}`}>
+                          {entry.from ? `${bookingStatusLabels[entry.from]} → ` : ""}
+                          {bookingStatusLabels[entry.to]} by {entry.actorRole} •{" "}
+                          {formatTimestampLocal(entry.at)}
+                          {entry.reason ? ` • ${entry.reason}` : ""}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                ) : null}
+
                 {request.status === "requested" ? (
                   <div className="mt-4 flex flex-wrap gap-3">
                     <button
@@ -485,12 +1176,145 @@ export default function ProviderDashboardPage() {
                     >
                       Accept
                     </button>
+                    <button
+                      onClick={() => openProposal(request)}
+                      className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+                    >
+                      Propose new time
+                    </button>
                     <button
                       onClick={() => updateBookingStatus(request.id, "declined")}
                       className="rounded-full border border-red-500 px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-red-600"
                     >
                       Decline
                     </button>
+                    {request.seriesId ? (
+                      <>
+                        <button
+                          onClick={() => updateSeries(request.seriesId as string, "accepted")}
+                          className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white"
+                        >
+                          Accept whole series
+                        </button>
+                        <button
+                          onClick={() => updateSeries(request.seriesId as string, "declined")}
+                          className="rounded-full border border-red-500 px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-red-600"
+                        >
+                          Decline series
+                        </button>
+                      </>
+                    ) : null}
+                  </div>
+                ) : null}
+                {request.status === "quote_requested" || request.status === "quoted" ? (
+                  <div className="mt-4 flex flex-wrap gap-3">
+                    <button
+                      onClick={() => setQuoteBookingId(request.id)}
+                      className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white"
+                    >
+                      {request.status === "quoted" ? "Revise quote" : "Write quote"}
+                    </button>
+                    <button
+                      onClick={() => updateBookingStatus(request.id, "declined")}
+                      className="rounded-full border border-red-500 px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-red-600"
+                    >
+                      Decline job
+                    </button>
+                  </div>
+                ) : null}
+                {quoteBookingId === request.id &&
+                (request.status === "quote_requested" || request.status === "quoted") ? (
+                  <QuoteEditor
+                    initialQuote={parseQuote(request.quote)}
+                    saving={quoteSaving}
+                    onSubmit={(quote) => submitQuote(request.id, quote)}
+                    onClose={() => setQuoteBookingId(null)}
+                  />
+                ) : null}
+                {request.status === "requested" && proposalBookingId === request.id ? (
+                  <div className="mt-4 space-y-4 rounded-2xl border border-[var(--prime-sand)] bg-white p-4">
+                    <p className="text-sm text-[color:rgba(20,21,22,0.7)]">
+                      Pick up to {MAX_PROPOSED_TIMES} alternative times. The customer chooses one.
+                    </p>
+                    <SlotPicker
+                      availability={proposalAvailability}
+                      date={proposalPick.date}
+                      time={proposalPick.time}
+                      loading={proposalLoading}
+                      timeZone={request.timeZone || providerProfile?.schedule.timeZone}
+                      emptyMessage="No open slots in the next two weeks. Check your schedule tab."
+                      onSelect={(date, time) => setProposalPick({ date, time })}
+                    />
+                    <button
+                      type="button"
+                      onClick={addProposalTime}
+                      disabled={
+                        !proposalPick.time || proposalTimes.length >= MAX_PROPOSED_TIMES
+                      }
+                      className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Add time
+                    </button>
+                    {proposalTimes.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {proposalTimes.map((slot) => (
+                          <button
+                            key={`${slot.date}-${slot.time}`}
+                            type="button"
+                            onClick={() =>
+                              setProposalTimes((prev) =>
+                                prev.filter(
+                                  (item) => !(item.date === slot.date && item.time === slot.time)
+                                )
+                              )
+                            }
+                            className="rounded-full bg-[var(--prime-cream)] px-3 py-1 text-xs font-semibold"
+                          >
+                            {formatBookingTime({ ...slot, timeZone: request.timeZone })} ×
+                          </button>
+                        ))}
+                      </div>
+                    ) : null}
+                    <label className="grid gap-2 text-sm font-medium">
+                      Note to customer (optional)
+                      <textarea
+                        rows={2}
+                        value={proposalNote}
+                        onChange={(event) => setProposalNote(event.target.value)}
+                        className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                      />
+                    </label>
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        onClick={() => sendProposal(request.id)}
+                        disabled={proposalLoading || proposalTimes.length === 0}
+                        className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+                      >
+                        Send proposal
+                      </button>
+                      <button
+                        onClick={() => setProposalBookingId(null)}
+                        className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+                      >
+                        Close
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+                {request.status === "reschedule_proposed" ? (
+                  <div className="mt-4 space-y-3">
+                    <p className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                      Waiting for the customer to pick one of:{" "}
+                      {(request.proposedTimes || [])
+                        .map((slot) => formatBookingTime({ ...slot, timeZone: request.timeZone }))
+                        .join(", ")}
+                    </p>
+                    <button
+                      onClick={() => updateBookingStatus(request.id, "declined")}
+                      className="rounded-full border border-red-500 px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-red-600"
+                    >
+                      Withdraw and decline
+                    </button>
                   </div>
                 ) : null}
                 {request.status === "accepted" ? (
@@ -501,6 +1325,14 @@ export default function ProviderDashboardPage() {
                     >
                       Mark completed
                     </button>
+                    {request.seriesId ? (
+                      <button
+                        onClick={() => skipVisit(request.id)}
+                        className="rounded-full border border-[var(--prime-sand)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-ink)]"
+                      >
+                        Skip visit
+                      </button>
+                    ) : null}
                   </div>
                 ) : null}
               </article>
@@ -508,6 +1340,166 @@ export default function ProviderDashboardPage() {
           </section>
         ) : null}
 
+        {tab === "schedule" ? (
+          <section className="rounded-[24px] border border-white/70 bg-white/70 p-6 shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
+            <div className="space-y-6">
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Weekly working hours</p>
+                {scheduleDraft.weeklyHours.map((day, index) => (
+                  <div
+                    key={WEEKDAY_LABELS[index]}
+                    className="flex flex-wrap items-center gap-3 rounded-xl border border-[var(--prime-sand)] bg-white px-3 py-2 text-sm"
+                  >
+                    <label className="flex w-36 items-center gap-2 font-medium">
+                      <input
+                        type="checkbox"
+                        checked={day.enabled}
+                        onChange={(event) =>
+                          updateWorkingDay(index, { enabled: event.target.checked })
+                        }
+                        className="h-4 w-4 accent-[var(--prime-forest)]"
+                      />
+                      {WEEKDAY_LABELS[index]}
+                    </label>
+                    <input
+                      type="time"
+                      value={day.start}
+                      disabled={!day.enabled}
+                      onChange={(event) => updateWorkingDay(index, { start: event.target.value })}
+                      className="rounded-xl border border-[var(--prime-sand)] px-3 py-1 disabled:opacity-50"
+                    />
+                    <span className="text-[color:rgba(20,21,22,0.6)]">to</span>
+                    <input
+                      type="time"
+                      value={day.end}
+                      disabled={!day.enabled}
+                      onChange={(event) => updateWorkingDay(index, { end: event.target.value })}
+                      className="rounded-xl border border-[var(--prime-sand)] px-3 py-1 disabled:opacity-50"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+                  Slot length
+                  <select
+                    value={scheduleDraft.slotMinutes}
+                    onChange={(event) =>
+                      setScheduleDraft((prev) => ({
+                        ...prev,
+                        slotMinutes: Number(event.target.value),
+                      }))
+                    }
+                    className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                  >
+                    {SLOT_LENGTH_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes} minutes
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+                  Buffer between jobs
+                  <select
+                    value={scheduleDraft.bufferMinutes}
+                    onChange={(event) =>
+                      setScheduleDraft((prev) => ({
+                        ...prev,
+                        bufferMinutes: Number(event.target.value),
+                      }))
+                    }
+                    className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                  >
+                    {BUFFER_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes === 0 ? "No buffer" : `${minutes} minutes`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)] sm:col-span-2">
+                  Time zone of your service area
+                  <select
+                    value={scheduleDraft.timeZone}
+                    onChange={(event) =>
+                      setScheduleDraft((prev) => ({ ...prev, timeZone: event.target.value }))
+                    }
+                    className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                  >
+                    {timeZoneChoices.map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone.replace(/_/g, " ")}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-xs font-normal text-[color:rgba(20,21,22,0.6)]">
+                    Working hours and booking times use this zone.{" "}
+                    {scheduleDraft.timeZone !== browserTimeZone() ? (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setScheduleDraft((prev) => ({ ...prev, timeZone: browserTimeZone() }))
+                        }
+                        className="font-semibold text-[var(--prime-forest)] underline"
+                      >
+                        Use {browserTimeZone().replace(/_/g, " ")}
+                      </button>
+                    ) : null}
+                  </span>
+                </label>
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Blocked dates and holidays</p>
+                <div className="flex flex-wrap gap-3">
+                  <input
+                    type="date"
+                    value={blockedDateInput}
+                    onChange={(event) => setBlockedDateInput(event.target.value)}
+                    className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-2 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                  />
+                  <button
+                    type="button"
+                    onClick={addBlockedDate}
+                    disabled={!blockedDateInput}
+                    className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Block date
+                  </button>
+                </div>
+                {scheduleDraft.blockedDates.length === 0 ? (
+                  <p className="text-sm text-[color:rgba(20,21,22,0.7)]">No blocked dates.</p>
+                ) : null}
+                <div className="flex flex-wrap gap-2">
+                  {scheduleDraft.blockedDates.map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => removeBlockedDate(value)}
+                      className="rounded-full bg-[var(--prime-sand)] px-3 py-1 text-xs font-semibold text-[var(--prime-forest)]"
+                    >
+                      {value} ✕
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={saveSchedule}
+                disabled={savingSchedule}
+                className="rounded-full bg-[var(--prime-forest)] px-6 py-3 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+              >
+                {savingSchedule ? "Saving..." : "Save schedule"}
+              </button>
+
+              {providerUid ? <CalendarFeedPanel uid={providerUid} /> : null}
+            </div>
+          </section>
+        ) : null}
+
         {tab === "profile" ? (
           <section className="rounded-[24px] border border-white/70 bg-white/70 p-6 shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
             <div className="space-y-5">
@@ -533,11 +1525,11 @@ export default function ProviderDashboardPage() {
               <div className="space-y-2">
                 <p className="text-sm font-medium">Services</p>
                 <div className="grid gap-2 sm:grid-cols-2">
-                  {serviceOptions.map((item) => {
+                  {serviceOptions.map(({ slug, title: item }) => {
                     const active = profileServices.includes(item);
                     return (
                       <button
-                        key={item}
+                        key={slug}
                         type="button"
                         onClick={() => {
                           setProfileServices((prev) =>
@@ -559,13 +1551,192 @@ export default function ProviderDashboardPage() {
                 </div>
               </div>
 
-              <div className="rounded-xl border border-[var(--prime-sand)] bg-[var(--prime-cream)] px-4 py-3 text-sm">
+              {profileServices.length > 0 ? (
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">Pricing</p>
+                  {profileServices.map((item) => {
+                    const pricing = pricingDraft[item] || defaultServicePricing;
+                    return (
+                      <div
+                        key={item}
+                        className="grid gap-3 rounded-xl border border-[var(--prime-sand)] bg-white p-4 text-sm sm:grid-cols-5"
+                      >
+                        <p className="font-semibold sm:col-span-5">{item}</p>
+                        <label className="grid gap-1 text-xs font-medium">
+                          Charge
+                          <select
+                            value={pricing.model}
+                            onChange={(event) =>
+                              updateServicePricing(item, {
+                                model: event.target.value === "fixed" ? "fixed" : "hourly",
+                              })
+                            }
+                            className="rounded-xl border border-[var(--prime-sand)] px-3 py-2 text-sm"
+                          >
+                            <option value="hourly">Hourly</option>
+                            <option value="fixed">Fixed price</option>
+                          </select>
+                        </label>
+                        {pricing.model === "hourly" ? (
+                          <>
+                            <label className="grid gap-1 text-xs font-medium">
+                              Hourly rate ($)
+                              <input
+                                type="number"
+                                min={0}
+                                step="0.5"
+                                value={pricing.hourlyRate}
+                                onChange={(event) =>
+                                  updateServicePricing(item, {
+                                    hourlyRate: Number(event.target.value),
+                                  })
+                                }
+                                className="rounded-xl border border-[var(--prime-sand)] px-3 py-2 text-sm"
+                              />
+                            </label>
+                            <label className="grid gap-1 text-xs font-medium">
+                              Minimum hours
+                              <input
+                                type="number"
+                                min={0}
+                                step="0.5"
+                                value={pricing.minimumHours}
+                                onChange={(event) =>
+                                  updateServicePricing(item, {
+                                    minimumHours: Number(event.target.value),
+                                  })
+                                }
+                                className="rounded-xl border border-[var(--prime-sand)] px-3 py-2 text-sm"
+                              />
+                            </label>
+                          </>
+                        ) : (
+                          <label className="grid gap-1 text-xs font-medium sm:col-span-2">
+                            Fixed price ($)
+                            <input
+                              type="number"
+                              min={0}
+                              step="1"
+                              value={pricing.fixedPrice}
+                              onChange={(event) =>
+                                updateServicePricing(item, {
+                                  fixedPrice: Number(event.target.value),
+                                })
+                              }
+                              className="rounded-xl border border-[var(--prime-sand)] px-3 py-2 text-sm"
+                            />
+                          </label>
+                        )}
+                        <label className="grid gap-1 text-xs font-medium">
+                          Call-out fee ($)
+                          <input
+                            type="number"
+                            min={0}
+                            step="1"
+                            value={pricing.calloutFee}
+                            onChange={(event) =>
+                              updateServicePricing(item, {
+                                calloutFee: Number(event.target.value),
+                              })
+                            }
+                            className="rounded-xl border border-[var(--prime-sand)] px-3 py-2 text-sm"
+                          />
+                        </label>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+
+              <div className="space-y-3 rounded-xl border border-[var(--prime-sand)] bg-white p-4">
+                <div>
+                  <p className="text-sm font-medium">Service area</p>
+                  <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                    {providerProfile && hasServiceArea(providerProfile.serviceArea)
+                      ? "Customers only see you for addresses inside this area."
+                      : "Not set yet, so customers see you for any address. Set one to only get local requests."}
+                  </p>
+                </div>
+                <ServiceAreaFields
+                  area={areaDraft}
+                  places={areaPlaces}
+                  onAreaChange={setAreaDraft}
+                  onPlacesChange={setAreaPlaces}
+                />
+              </div>
+
+              <div className="space-y-3 rounded-xl border border-[var(--prime-sand)] bg-[var(--prime-cream)] px-4 py-3 text-sm">
                 <p>
                   <span className="font-semibold">Rating:</span> {providerProfile?.rating?.toFixed(1) || "0.0"}
                 </p>
                 <p>
                   <span className="font-semibold">Reviews:</span> {providerProfile?.reviewCount || 0}
                 </p>
+                {providerProfile && providerProfile.criteriaRatings.count > 0 ? (
+                  <div className="grid gap-1 sm:grid-cols-2">
+                    {REVIEW_CRITERIA.map((criterion) => (
+                      <p key={criterion}>
+                        <span className="font-semibold">{reviewCriterionLabels[criterion]}:</span>{" "}
+                        {providerProfile.criteriaRatings.averages[criterion]?.toFixed(1) || "-"}
+                      </p>
+                    ))}
+                  </div>
+                ) : null}
+                {reviews.slice(0, RECENT_REVIEW_LIMIT).map((review) => (
+                  <div key={review.id} className="border-t border-[var(--prime-sand)] pt-3">
+                    <p className="font-semibold">
+                      {review.rating}/5 • {review.customerName} • {review.service || "Service"}
+                    </p>
+                    <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+                      {formatTimestampLocal(review.createdAt || undefined)} •{" "}
+                      {REVIEW_CRITERIA.filter((criterion) => review.scores[criterion])
+                        .map(
+                          (criterion) =>
+                            `${reviewCriterionLabels[criterion]} ${review.scores[criterion]}/5`
+                        )
+                        .join(", ")}
+                    </p>
+                    {review.hidden ? (
+                      <p className="mt-1 text-xs font-semibold text-amber-800">
+                        Hidden by moderators and left out of your rating.
+                      </p>
+                    ) : null}
+                    {review.comment ? (
+                      <p className="mt-1 whitespace-pre-line">{review.comment}</p>
+                    ) : null}
+                    {review.reply ? (
+                      <p className="mt-2 whitespace-pre-line border-l-2 border-[var(--prime-forest)] pl-3">
+                        <span className="font-semibold">Your reply:</span> {review.reply.text}
+                      </p>
+                    ) : !review.hidden ? (
+                      <div className="mt-2 grid gap-2">
+                        <textarea
+                          rows={2}
+                          value={replyDrafts[review.id] || ""}
+                          maxLength={MAX_REPLY_LENGTH}
+                          onChange={(event) =>
+                            setReplyDrafts((prev) => ({ ...prev, [review.id]: event.target.value }))
+                          }
+                          placeholder="Reply publicly (one reply per review)"
+                          className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-2 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => sendReply(review)}
+                          disabled={replyingId === review.id || !replyDrafts[review.id]?.trim()}
+                          className="justify-self-start rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+                        >
+                          {replyingId === review.id ? "Posting..." : "Post reply"}
+                        </button>
+                      </div>
+                    ) : null}
+                    {!review.hidden ? (
+                      <div className="mt-2">
+                        <ReportReviewButton reviewId={review.id} />
+                      </div>
+                    ) : null}
+                  </div>
+                ))}
               </div>
 
               <button
@@ -576,6 +1747,13 @@ export default function ProviderDashboardPage() {
               >
                 {savingProfile ? "Saving..." : "Save profile"}
               </button>
+
+              {providerUid ? (
+                <NotificationSettings
+                  uid={providerUid}
+                  topics={["newRequests", "bookingUpdates", "applicationUpdates"]}
+                />
+              ) : null}
             </div>
           </section>
         ) : null}
@@ -0,0 +1,386 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import ReportReviewButton from "@/components/ReportReviewButton";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { describeServiceArea, hasServiceArea } from "@/lib/geo";
+import { describePricing } from "@/lib/pricing";
+import { isBookable, parseProviderProfile, type ProviderProfile } from "@/lib/providers";
+import {
+  parseReview,
+  REVIEW_CRITERIA,
+  reviewCriterionLabels,
+  type CriteriaScores,
+  type Review,
+  type ReviewReply,
+} from "@/lib/reviews";
+import { adminDb } from "@/lib/server/firebaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_REVIEW_LIMIT = 5;
+
+type ReviewEntry = {
+  id: string;
+  customerName?: string;
+  service?: string;
+  rating: number;
+  scores: Partial<CriteriaScores>;
+  comment: string;
+  reply: ReviewReply | null;
+  // Only written reviews can be reported; legacy ratings have no review doc.
+  reportable: boolean;
+  at?: Timestamp;
+};
+
+type ProviderPageProps = {
+  params: Promise<{ uid: string }>;
+};
+
+// Only what the public page shows; the application itself stays private.
+type ProviderCredentials = {
+  area: string;
+  idVerified: boolean;
+  insured: boolean;
+  backgroundConsent: boolean;
+};
+
+type RatedBooking = {
+  id: string;
+  service?: string;
+  customerName?: string;
+  customerRating?: number;
+  ratedAt?: Timestamp;
+};
+
+async function loadProvider(uid: string): Promise<ProviderProfile | null> {
+  const snapshot = await getDoc(doc(db, "providerProfiles", uid));
+  if (!snapshot.exists()) return null;
+  const provider = parseProviderProfile(snapshot.id, snapshot.data());
+  return provider.isApproved ? provider : null;
+}
+
+// Applications and bookings aren't readable by visitors, so these two are
+// read with the admin SDK and trimmed to their public fields.
+async function loadCredentials(uid: string): Promise<ProviderCredentials | null> {
+  const snapshot = await adminDb
+    .collection("providerApplications")
+    .where("providerUid", "==", uid)
+    .where("status", "==", "approved")
+    .limit(1)
+    .get();
+  const application = snapshot.docs[0]?.data();
+  if (!application) return null;
+  return {
+    area: String(application.area || ""),
+    idVerified: Boolean(application.documents?.idDocument),
+    insured: application.hasInsurance === "yes",
+    backgroundConsent: Boolean(application.backgroundConsent),
+  };
+}
+
+async function loadRatedBookings(uid: string): Promise<RatedBooking[]> {
+  const snapshot = await adminDb
+    .collection("bookings")
+    .where("providerUid", "==", uid)
+    .where("status", "==", "completed")
+    .get();
+  return snapshot.docs
+    .map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        service: String(data.service || ""),
+        customerName: String(data.customerName || ""),
+        customerRating: Number(data.customerRating) || 0,
+        ratedAt:
+          typeof data.ratedAt?.toMillis === "function"
+            ? Timestamp.fromMillis(data.ratedAt.toMillis())
+            : undefined,
+      };
+    })
+    .filter((booking) => Boolean(booking.customerRating))
+    .sort((a, b) => (b.ratedAt?.seconds || 0) - (a.ratedAt?.seconds || 0));
+}
+
+async function loadReviews(uid: string): Promise<Review[]> {
+  const snapshot = await getDocs(
+    query(collection(db, "reviews"), where("providerUid", "==", uid))
+  );
+  return snapshot.docs.map((docSnap) => parseReview(docSnap.id, docSnap.data()));
+}
+
+// Ratings left before written reviews existed only live on the booking, so
+// they are shown alongside reviews as rating-only entries. Hidden reviews are
+// left out entirely, their booking's rating included.
+function recentReviews(reviews: Review[], ratedBookings: RatedBooking[]): ReviewEntry[] {
+  const reviewed = new Set(reviews.map((review) => review.bookingId));
+  return [
+    ...reviews.filter((review) => !review.hidden).map((review) => ({
+      id: review.id,
+      customerName: review.customerName,
+      service: review.service,
+      rating: review.rating,
+      scores: review.scores,
+      comment: review.comment,
+      reply: review.reply,
+      reportable: true,
+      at: review.createdAt || undefined,
+    })),
+    ...ratedBookings
+      .filter((booking) => !reviewed.has(booking.id))
+      .map((booking) => ({
+        id: booking.id,
+        customerName: booking.customerName,
+        service: booking.service,
+        rating: booking.customerRating || 0,
+        scores: {},
+        comment: "",
+        reply: null,
+        reportable: false,
+        at: booking.ratedAt,
+      })),
+  ]
+    .sort((a, b) => (b.at?.seconds || 0) - (a.at?.seconds || 0))
+    .slice(0, RECENT_REVIEW_LIMIT);
+}
+
+function formatTimestamp(value?: Timestamp): string {
+  if (!value) return "-";
+  try {
+    return value.toDate().toLocaleDateString();
+  } catch {
+    return "-";
+  }
+}
+
+function firstName(value?: string): string {
+  return (value || "Customer").trim().split(/\s+/)[0] || "Customer";
+}
+
+export async function generateMetadata({ params }: ProviderPageProps): Promise<Metadata> {
+  const { uid } = await params;
+  const provider = await loadProvider(uid).catch(() => null);
+  if (!provider) {
+    return { title: "Provider not found | Prime Care" };
+  }
+  return {
+    title: `${provider.displayName} | Prime Care`,
+    description: provider.bio || `${provider.displayName} on Prime Care.`,
+  };
+}
+
+export default async function ProviderProfilePage({ params }: ProviderPageProps) {
+  const { uid } = await params;
+  const provider = await loadProvider(uid).catch(() => null);
+  if (!provider) {
+    notFound();
+  }
+
+  const [credentials, allRatedBookings, reviews] = await Promise.all([
+    loadCredentials(uid).catch(() => null),
+    loadRatedBookings(uid).catch(() => [] as RatedBooking[]),
+    loadReviews(uid).catch(() => [] as Review[]),
+  ]);
+  const hiddenBookingIds = new Set(
+    reviews.filter((review) => review.hidden).map((review) => review.bookingId)
+  );
+  const ratedBookings = allRatedBookings.filter((booking) => !hiddenBookingIds.has(booking.id));
+  const latestReviews = recentReviews(reviews, ratedBookings);
+
+  const breakdown = [5, 4, 3, 2, 1].map((stars) => ({
+    stars,
+    count: ratedBookings.filter((booking) => booking.customerRating === stars).length,
+  }));
+  const maxCount = Math.max(1, ...breakdown.map((row) => row.count));
+
+  const badges = [
+    credentials?.idVerified ? "ID verified" : null,
+    credentials?.insured ? "Insured" : null,
+    credentials?.backgroundConsent ? "Background check consented" : null,
+  ].filter((badge): badge is string => Boolean(badge));
+
+  const bookable = isBookable(provider);
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--prime-ink)]">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-wrap items-end justify-between gap-6">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
+              Prime Care provider
+            </p>
+            <h1 className="font-serif text-3xl sm:text-4xl">{provider.displayName}</h1>
+            <p className="text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-copper)]">
+              Rating {provider.rating.toFixed(1)} ({provider.reviewCount})
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {badges.map((badge) => (
+                <span
+                  key={badge}
+                  className="rounded-full bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700"
+                >
+                  {badge}
+                </span>
+              ))}
+            </div>
+          </div>
+          <span
+            className={`rounded-full px-3 py-1 text-xs font-semibold ${
+              bookable
+                ? "bg-emerald-50 text-emerald-700"
+                : "bg-[var(--prime-sand)] text-[var(--prime-forest)]"
+            }`}
+          >
+            {bookable ? "Taking bookings" : "Not taking bookings right now"}
+          </span>
+        </header>
+
+        <section className="grid gap-5 md:grid-cols-[1.2fr_0.8fr]">
+          <div className="rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
+            <p className="text-xs uppercase tracking-[0.16em] text-[var(--prime-copper)]">About</p>
+            <p className="mt-3 text-sm text-[color:rgba(20,21,22,0.75)]">
+              {provider.bio || "No profile bio yet."}
+            </p>
+            <p className="mt-4 text-sm">
+              <span className="font-semibold">Service area:</span> {hasServiceArea(provider.serviceArea)
+                ? describeServiceArea(provider.serviceArea)
+                : credentials?.area || "-"}
+            </p>
+          </div>
+          <div className="rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
+            <p className="text-xs uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+              Rating breakdown
+            </p>
+            <div className="mt-3 space-y-2">
+              {breakdown.map((row) => (
+                <div key={row.stars} className="flex items-center gap-3 text-sm">
+                  <span className="w-6 font-semibold">{row.stars}</span>
+                  <div className="h-2 flex-1 rounded-full bg-[var(--prime-sand)]">
+                    <div
+                      className="h-2 rounded-full bg-[var(--prime-forest)]"
+                      style={{ width: `${(row.count / maxCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-6 text-right text-[color:rgba(20,21,22,0.7)]">{row.count}</span>
+                </div>
+              ))}
+            </div>
+            {provider.criteriaRatings.count > 0 ? (
+              <dl className="mt-4 grid grid-cols-2 gap-2 border-t border-[var(--prime-sand)] pt-3 text-sm">
+                {REVIEW_CRITERIA.map((criterion) => (
+                  <div key={criterion} className="flex justify-between gap-2">
+                    <dt className="text-[color:rgba(20,21,22,0.7)]">
+                      {reviewCriterionLabels[criterion]}
+                    </dt>
+                    <dd className="font-semibold">
+                      {provider.criteriaRatings.averages[criterion]?.toFixed(1) || "-"}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            ) : null}
+          </div>
+        </section>
+
+        <section className="rounded-[32px] border border-white/70 bg-white/70 p-6 shadow-[0_18px_45px_rgba(15,42,34,0.12)]">
+          <p className="text-xs font-semibold uppercase tracking-[0.18em] text-[var(--prime-copper)]">
+            Services
+          </p>
+          <div className="mt-4 grid gap-3 sm:grid-cols-2">
+            {provider.services.map((service) => (
+              <div
+                key={service}
+                className="flex items-center justify-between gap-3 rounded-[18px] border border-[var(--prime-sand)] bg-[var(--prime-cream)] px-4 py-3 text-sm font-medium"
+              >
+                <span>
+                  {service}
+                  <span className="block text-xs font-normal text-[color:rgba(20,21,22,0.7)]">
+                    {provider.pricing[service]
+                      ? describePricing(provider.pricing[service])
+                      : "Price on request"}
+                  </span>
+                </span>
+                {bookable ? (
+                  <Link
+                    href={`/book?service=${encodeURIComponent(service)}&provider=${encodeURIComponent(provider.id)}&step=3`}
+                    className="text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-copper)]"
+                  >
+                    Book with this provider
+                  </Link>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="font-serif text-2xl">Recent reviews</h2>
+          {latestReviews.length === 0 ? (
+            <p className="text-sm text-[color:rgba(20,21,22,0.7)]">No reviews yet.</p>
+          ) : null}
+          {latestReviews.map((review) => (
+            <article
+              key={review.id}
+              className="rounded-2xl border border-[var(--prime-sand)] bg-[var(--prime-cream)] p-4"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-semibold">
+                  {firstName(review.customerName)} • {review.service || "Service"}
+                </p>
+                <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-copper)]">
+                  {review.rating}/5
+                </p>
+              </div>
+              <p className="mt-1 text-xs text-[color:rgba(20,21,22,0.6)]">
+                {formatTimestamp(review.at)}
+              </p>
+              {review.comment ? (
+                <p className="mt-2 whitespace-pre-line text-sm">{review.comment}</p>
+              ) : null}
+              {Object.keys(review.scores).length > 0 ? (
+                <p className="mt-2 text-xs text-[color:rgba(20,21,22,0.7)]">
+                  {REVIEW_CRITERIA.filter((criterion) => review.scores[criterion])
+                    .map(
+                      (criterion) =>
+                        `${reviewCriterionLabels[criterion]} ${review.scores[criterion]}/5`
+                    )
+                    .join(" • ")}
+                </p>
+              ) : null}
+              {review.reply ? (
+                <div className="mt-3 rounded-xl border-l-2 border-[var(--prime-forest)] bg-white/70 px-3 py-2 text-sm">
+                  <p className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]">
+                    Reply from {provider.displayName}
+                  </p>
+                  <p className="mt-1 whitespace-pre-line">{review.reply.text}</p>
+                </div>
+              ) : null}
+              {review.reportable ? (
+                <div className="mt-2">
+                  <ReportReviewButton reviewId={review.id} />
+                </div>
+              ) : null}
+            </article>
+          ))}
+        </section>
+
+        <Link
+          href="/providers"
+          className="text-sm font-semibold uppercase tracking-[0.2em] text-[var(--prime-copper)]"
+        >
+          All providers
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import Link from "next/link";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  isBookable,
+  parseProviderProfile,
+  sortProviders,
+  type ProviderProfile,
+  type ProviderSort,
+} from "@/lib/providers";
+
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 9;
+
+const sortOptions: { value: ProviderSort; label: string }[] = [
+  { value: "rating", label: "Top rated" },
+  { value: "reviews", label: "Most reviewed" },
+];
+
+type ProvidersPageProps = {
+  searchParams: Promise<{ service?: string; sort?: string; page?: string }>;
+};
+
+function buildHref(params: { service?: string; sort?: ProviderSort; page?: number }) {
+  const search = new URLSearchParams();
+  if (params.service) search.set("service", params.service);
+  if (params.sort && params.sort !== "rating") search.set("sort", params.sort);
+  if (params.page && params.page > 1) search.set("page", String(params.page));
+  const value = search.toString();
+  return value ? `/providers?${value}` : "/providers";
+}
+
+async function loadProviders(service?: string): Promise<ProviderProfile[]> {
+  const filters = [where("isApproved", "==", true)];
+  if (service) {
+    filters.push(where("services", "array-contains", service));
+  }
+
+  const snapshot = await getDocs(query(collection(db, "providerProfiles"), ...filters));
+  return snapshot.docs.map((docSnap) => parseProviderProfile(docSnap.id, docSnap.data()));
+}
+
+export default async function ProvidersPage({ searchParams }: ProvidersPageProps) {
+  const params = await searchParams;
+  const service = params.service?.trim() || "";
+  const sort: ProviderSort = params.sort === "reviews" ? "reviews" : "rating";
+  const requestedPage = Number.parseInt(params.page || "1", 10);
+
+  let providers: ProviderProfile[] = [];
+  let loadError: string | null = null;
+
+  try {
+    providers = sortProviders(await loadProviders(service || undefined), sort);
+  } catch (err) {
+    loadError =
+      err instanceof Error ? err.message : "Unable to load providers right now.";
+  }
+
+  const pageCount = Math.max(1, Math.ceil(providers.length / PAGE_SIZE));
+  const page = Number.isFinite(requestedPage)
+    ? Math.min(Math.max(requestedPage, 1), pageCount)
+    : 1;
+  const pageProviders = providers.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--prime-ink)]">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-16">
+        <header className="space-y-3">
+          <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
+            Provider directory
+          </p>
+          <h1 className="font-serif text-3xl sm:text-4xl">
+            {service ? `${service} providers` : "All approved providers"}
+          </h1>
+          <p className="max-w-2xl text-sm text-[color:rgba(20,21,22,0.7)]">
+            Every provider listed here has passed manual review. Pick someone you
+            like and book them directly.
+          </p>
+        </header>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-3">
+            {sortOptions.map((option) => (
+              <Link
+                key={option.value}
+                href={buildHref({ service, sort: option.value })}
+                className={`rounded-full border px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] transition ${
+                  sort === option.value
+                    ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                    : "border-[var(--prime-sand)] bg-white text-[var(--prime-ink)]"
+                }`}
+              >
+                {option.label}
+              </Link>
+            ))}
+          </div>
+          {service ? (
+            <Link
+              href={buildHref({ sort })}
+              className="text-xs font-semibold uppercase tracking-[0.2em] text-[var(--prime-copper)]"
+            >
+              Show all services
+            </Link>
+          ) : null}
+        </div>
+
+        {loadError ? (
+          <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {loadError}
+          </p>
+        ) : null}
+
+        {!loadError && providers.length === 0 ? (
+          <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            {service
+              ? `No approved providers offer ${service} yet.`
+              : "No approved providers yet."}
+          </p>
+        ) : null}
+
+        <section className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+          {pageProviders.map((provider) => {
+            const bookService = service || provider.services[0] || "";
+            const bookable = isBookable(provider);
+            return (
+              <article
+                key={provider.id}
+                className="flex flex-col rounded-[28px] border border-white/60 bg-white/70 p-6 shadow-[0_16px_40px_rgba(15,42,34,0.08)]"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <Link href={`/providers/${provider.id}`}>
+                    <h2 className="text-xl font-semibold hover:text-[var(--prime-copper)]">
+                      {provider.displayName}
+                    </h2>
+                  </Link>
+                  <span
+                    className={`rounded-full px-3 py-1 text-xs font-semibold ${
+                      bookable
+                        ? "bg-emerald-50 text-emerald-700"
+                        : "bg-[var(--prime-sand)] text-[var(--prime-forest)]"
+                    }`}
+                  >
+                    {bookable ? "Available" : "Unavailable"}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs font-semibold uppercase tracking-[0.12em] text-[var(--prime-copper)]">
+                  Rating {provider.rating.toFixed(1)} ({provider.reviewCount})
+                </p>
+                <p className="mt-3 flex-1 text-sm text-[color:rgba(20,21,22,0.7)]">
+                  {provider.bio || "No profile bio yet."}
+                </p>
+                <p className="mt-3 text-xs text-[color:rgba(20,21,22,0.6)]">
+                  {provider.services.join(" • ") || "No services listed"}
+                </p>
+                {bookable && bookService ? (
+                  <Link
+                    href={`/book?service=${encodeURIComponent(bookService)}&provider=${encodeURIComponent(provider.id)}`}
+                    className="mt-5 w-fit rounded-full bg-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-white transition hover:bg-[var(--prime-ink)]"
+                  >
+                    Book {provider.displayName}
+                  </Link>
+                ) : null}
+              </article>
+            );
+          })}
+        </section>
+
+        {pageCount > 1 ? (
+          <nav className="flex items-center justify-between text-sm">
+            {page > 1 ? (
+              <Link
+                href={buildHref({ service, sort, page: page - 1 })}
+                className="font-semibold uppercase tracking-[0.2em] text-[var(--prime-copper)]"
+              >
+                Previous
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span className="text-[color:rgba(20,21,22,0.7)]">
+              Page {page} of {pageCount}
+            </span>
+            {page < pageCount ? (
+              <Link
+                href={buildHref({ service, sort, page: page + 1 })}
+                className="font-semibold uppercase tracking-[0.2em] text-[var(--prime-copper)]"
+              >
+                Next
+              </Link>
+            ) : (
+              <span />
+            )}
+          </nav>
+        ) : null}
+
+        <Link
+          href="/"
+          className="text-sm font-semibold uppercase tracking-[0.2em] text-[var(--prime-ink)]"
+        >
+          Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
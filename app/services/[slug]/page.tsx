@@ -0,0 +1,125 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { countOnlineProviders } from "@/lib/providers";
+import { loadServiceBySlug } from "@/lib/services";
+
+export const dynamic = "force-dynamic";
+
+type ServicePageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function generateMetadata({ params }: ServicePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const service = await loadServiceBySlug(slug).catch(() => null);
+  if (!service) {
+    return { title: "Service not found | Prime Care" };
+  }
+  return {
+    title: `${service.title} | Prime Care`,
+    description: service.description,
+  };
+}
+
+export default async function ServicePage({ params }: ServicePageProps) {
+  const { slug } = await params;
+  const service = await loadServiceBySlug(slug).catch(() => null);
+  if (!service) {
+    notFound();
+  }
+
+  const onlineCount = await countOnlineProviders(service.title).catch(() => null);
+  const encodedService = encodeURIComponent(service.title);
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--prime-ink)]">
+      <div className="mx-auto flex w-full max-w-4xl flex-col gap-10 px-6 py-16">
+        <header className="space-y-3">
+          <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
+            {service.tag}
+          </p>
+          <h1 className="font-serif text-3xl sm:text-4xl">
+            {service.icon ? `${service.icon} ` : ""}
+            {service.title}
+          </h1>
+          <p className="max-w-2xl text-sm text-[color:rgba(20,21,22,0.7)]">
+            {service.description}
+          </p>
+        </header>
+
+        <section className="grid gap-5 md:grid-cols-2">
+          <div className="rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
+            <p className="text-xs uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+              Typical pricing
+            </p>
+            <p className="mt-2 text-lg font-semibold">{service.typicalPricing}</p>
+            <p className="mt-1 text-xs text-[color:rgba(20,21,22,0.6)]">
+              Final pricing is set by each provider.
+            </p>
+          </div>
+          <div className="rounded-[24px] border border-white/70 bg-white/70 p-5 shadow-[0_12px_35px_rgba(15,42,34,0.08)]">
+            <p className="text-xs uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+              Providers online
+            </p>
+            <p className="mt-2 text-lg font-semibold">
+              {onlineCount === null ? "-" : onlineCount}
+            </p>
+            <p className="mt-1 text-xs text-[color:rgba(20,21,22,0.6)]">
+              Approved providers currently online.
+            </p>
+          </div>
+        </section>
+
+        <section className="rounded-[32px] border border-white/70 bg-white/70 p-6 shadow-[0_18px_45px_rgba(15,42,34,0.12)]">
+          <p className="text-xs font-semibold uppercase tracking-[0.18em] text-[var(--prime-copper)]">
+            What&apos;s included
+          </p>
+          {service.highlights.length === 0 ? (
+            <p className="mt-4 text-sm text-[color:rgba(20,21,22,0.7)]">
+              Ask your provider for the full scope of work.
+            </p>
+          ) : null}
+          <ul className="mt-4 grid gap-3 sm:grid-cols-2">
+            {service.highlights.map((item) => (
+              <li
+                key={item}
+                className="rounded-[18px] border border-[var(--prime-sand)] bg-[var(--prime-cream)] px-4 py-3 text-sm font-medium"
+              >
+                {item}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {service.requiredCertifications.length > 0 ? (
+          <p className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+            Providers for this service must hold: {service.requiredCertifications.join(", ")}.
+          </p>
+        ) : null}
+
+        <div className="flex flex-col gap-4 sm:flex-row">
+          <Link
+            href={`/book?service=${encodedService}`}
+            className="rounded-full bg-[var(--prime-forest)] px-7 py-3 text-center text-sm font-semibold uppercase tracking-[0.16em] text-white transition hover:bg-[var(--prime-ink)]"
+          >
+            Book this
+          </Link>
+          <Link
+            href={`/providers?service=${encodedService}`}
+            className="rounded-full border border-[var(--prime-forest)] px-7 py-3 text-center text-sm font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+          >
+            View providers
+          </Link>
+        </div>
+
+        <Link
+          href="/services"
+          className="text-sm font-semibold uppercase tracking-[0.2em] text-[var(--prime-copper)]"
+        >
+          All services
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from "next/link";
+import { countOnlineProviders } from "@/lib/providers";
+import { defaultServiceCatalog, loadServiceCatalog } from "@/lib/services";
+
+export const dynamic = "force-dynamic";
+
+export default async function ServicesPage() {
+  const serviceCatalog = await loadServiceCatalog().catch(() =>
+    defaultServiceCatalog.filter((entry) => entry.active)
+  );
+  const onlineCounts = await Promise.all(
+    serviceCatalog.map((service) =>
+      countOnlineProviders(service.title).catch(() => null)
+    )
+  );
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--prime-ink)]">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-16">
+        <header className="space-y-3">
+          <p className="text-xs uppercase tracking-[0.3em] text-[var(--prime-copper)]">
+            Services
+          </p>
+          <h1 className="font-serif text-3xl sm:text-4xl">
+            Everything your home needs, in one place.
+          </h1>
+          <p className="max-w-2xl text-sm text-[color:rgba(20,21,22,0.7)]">
+            Browse what Prime Care providers offer, see typical pricing, and book
+            the help you need.
+          </p>
+        </header>
+
+        <section className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+          {serviceCatalog.map((service, index) => {
+            const onlineCount = onlineCounts[index];
+            return (
+              <article
+                key={service.slug}
+                className="flex flex-col rounded-[28px] border border-white/60 bg-white/70 p-6 shadow-[0_16px_40px_rgba(15,42,34,0.08)]"
+              >
+                <span className="w-fit rounded-full bg-[var(--prime-sand)] px-3 py-1 text-xs font-semibold text-[var(--prime-forest)]">
+                  {service.tag}
+                </span>
+                <h2 className="mt-4 text-xl font-semibold">
+                  {service.icon ? `${service.icon} ` : ""}
+                  {service.title}
+                </h2>
+                <p className="mt-2 flex-1 text-sm text-[color:rgba(20,21,22,0.7)]">
+                  {service.description}
+                </p>
+                <p className="mt-4 text-sm font-semibold">{service.typicalPricing}</p>
+                <p className="mt-1 text-xs text-[color:rgba(20,21,22,0.6)]">
+                  {onlineCount === null
+                    ? "Provider availability unavailable"
+                    : `${onlineCount} approved providers online`}
+                </p>
+                <div className="mt-5 flex flex-wrap gap-6">
+                  <Link
+                    href={`/services/${service.slug}`}
+                    className="text-xs font-semibold uppercase tracking-[0.22em] text-[var(--prime-copper)]"
+                  >
+                    Learn more
+                  </Link>
+                  <Link
+                    href={`/book?service=${encodeURIComponent(service.title)}`}
+                    className="text-xs font-semibold uppercase tracking-[0.22em] text-[var(--prime-ink)]"
+                  >
+                    Book this
+                  </Link>
+                </div>
+              </article>
+            );
+          })}
+        </section>
+
+        <Link
+          href="/"
+          className="text-sm font-semibold uppercase tracking-[0.2em] text-[var(--prime-ink)]"
+        >
+          Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import SavedAddressForm from "@/components/SavedAddressForm";
+import { deleteAddress, saveAddress } from "@/lib/addressBook";
+import {
+  accessDetails,
+  emptySavedAddress,
+  formatAddressLine,
+  MAX_SAVED_ADDRESSES,
+  type SavedAddress,
+} from "@/lib/addresses";
+
+type AddressBookProps = {
+  // Without a uid (not signed in) new addresses are used for this booking only.
+  uid: string | null;
+  addresses: SavedAddress[];
+  onAddressesChange: (addresses: SavedAddress[]) => void;
+  selectedId?: string | null;
+  onSelect?: (address: SavedAddress) => void;
+  prefill?: Partial<SavedAddress>;
+};
+
+// Lists saved addresses with add, edit and delete. Passing onSelect turns the
+// cards into a picker for the booking flow.
+export default function AddressBook({
+  uid,
+  addresses,
+  onAddressesChange,
+  selectedId = null,
+  onSelect,
+  prefill,
+}: AddressBookProps) {
+  // The picker opens straight onto the form when there is nothing to pick.
+  const [editing, setEditing] = useState<SavedAddress | null>(() =>
+    onSelect && addresses.length === 0 ? { ...emptySavedAddress(), ...prefill, id: "" } : null
+  );
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startAdding = () => {
+    setError(null);
+    setEditing({ ...emptySavedAddress(), ...prefill, id: "" });
+  };
+
+  const save = async (address: SavedAddress) => {
+    const saved = uid ? await saveAddress(uid, address) : address;
+    if (uid) {
+      onAddressesChange(
+        addresses.some((item) => item.id === saved.id)
+          ? addresses.map((item) => (item.id === saved.id ? saved : item))
+          : [...addresses, saved]
+      );
+    }
+    setEditing(null);
+    onSelect?.(saved);
+  };
+
+  const remove = async (address: SavedAddress) => {
+    if (!uid) return;
+    setDeletingId(address.id);
+    setError(null);
+    try {
+      await deleteAddress(uid, address.id);
+      onAddressesChange(addresses.filter((item) => item.id !== address.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete this address.");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (editing) {
+    return (
+      <SavedAddressForm
+        initial={editing}
+        submitLabel={uid ? "Save address" : "Use this address"}
+        onSave={save}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+      {addresses.map((address) => {
+        const selected = address.id === selectedId;
+        const details = accessDetails(address);
+        return (
+          <div
+            key={address.id}
+            className={`rounded-2xl border p-4 text-sm transition ${
+              selected
+                ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                : "border-[var(--prime-sand)] bg-white"
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect?.(address)}
+              disabled={!onSelect}
+              className="w-full text-left disabled:cursor-default"
+            >
+              <p className="font-semibold">{address.label}</p>
+              <p className={selected ? "text-white/90" : "text-[color:rgba(20,21,22,0.7)]"}>
+                {formatAddressLine(address)}
+              </p>
+              {details.length > 0 ? (
+                <p
+                  className={`mt-1 text-xs ${
+                    selected ? "text-white/80" : "text-[color:rgba(20,21,22,0.6)]"
+                  }`}
+                >
+                  {details.map((item) => item.label).join(", ")} saved
+                </p>
+              ) : null}
+            </button>
+            <div className="mt-3 flex gap-4 text-xs font-semibold">
+              <button type="button" onClick={() => setEditing(address)}>
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(address)}
+                disabled={deletingId === address.id}
+                className="disabled:opacity-60"
+              >
+                {deletingId === address.id ? "Deleting..." : "Delete"}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      {addresses.length === 0 && !onSelect ? (
+        <p className="text-sm text-[color:rgba(20,21,22,0.7)]">No saved addresses yet.</p>
+      ) : null}
+      {addresses.length < MAX_SAVED_ADDRESSES ? (
+        <button
+          type="button"
+          onClick={startAdding}
+          className="rounded-full border border-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+        >
+          Add a new address
+        </button>
+      ) : null}
+    </div>
+  );
+}
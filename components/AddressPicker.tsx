@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import type { StructuredAddress } from "@/lib/geo";
+import { searchAddresses } from "@/lib/geocoding";
+
+type AddressPickerProps = {
+  label: string;
+  value: StructuredAddress | null;
+  placeholder?: string;
+  onChange: (address: StructuredAddress | null) => void;
+};
+
+const inputClass =
+  "rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]";
+
+// Looks addresses up through /api/geocode. When the lookup can't find a place,
+// a suburb and postcode can be typed in instead; those match providers by
+// place name, and by distance when the suburb itself can be located.
+export default function AddressPicker({
+  label,
+  value,
+  placeholder = "Street, suburb or postcode",
+  onChange,
+}: AddressPickerProps) {
+  const [searchText, setSearchText] = useState("");
+  const [results, setResults] = useState<StructuredAddress[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const [manual, setManual] = useState(false);
+  const [suburb, setSuburb] = useState("");
+  const [postcode, setPostcode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async () => {
+    if (searchText.trim().length < 3) {
+      setError("Type at least three characters.");
+      return;
+    }
+
+    setSearching(true);
+    setError(null);
+    try {
+      setResults(await searchAddresses(searchText.trim()));
+      setSearched(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to look up that address.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // Still tries to place a typed suburb on the map, so providers who cover a
+  // radius rather than a list of places can match it too.
+  const useManual = async () => {
+    if (!suburb.trim() && !postcode.trim()) {
+      setError("Enter a suburb or postcode.");
+      return;
+    }
+    const typed = [suburb.trim(), postcode.trim()].filter(Boolean).join(" ");
+    setSearching(true);
+    setError(null);
+    const [match] = await searchAddresses(typed).catch(() => []);
+    setSearching(false);
+    onChange({
+      label: typed,
+      suburb: suburb.trim(),
+      postcode: postcode.trim(),
+      lat: match?.lat ?? null,
+      lng: match?.lng ?? null,
+    });
+  };
+
+  if (value) {
+    return (
+      <div className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+        {label}
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-[var(--prime-forest)] bg-white px-4 py-3">
+          <span className="text-sm font-normal">{value.label}</span>
+          <button
+            type="button"
+            onClick={() => {
+              onChange(null);
+              setResults([]);
+              setSearched(false);
+            }}
+            className="text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+          >
+            Change
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+      {label}
+      {manual ? (
+        <div className="grid gap-2 sm:grid-cols-[1fr_10rem_auto]">
+          <input
+            value={suburb}
+            onChange={(event) => setSuburb(event.target.value)}
+            placeholder="Suburb"
+            className={inputClass}
+          />
+          <input
+            value={postcode}
+            onChange={(event) => setPostcode(event.target.value)}
+            placeholder="Postcode"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={useManual}
+            disabled={searching}
+            className="rounded-full bg-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            Use
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={searchText}
+            onChange={(event) => setSearchText(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                void search();
+              }
+            }}
+            placeholder={placeholder}
+            className={`min-w-0 flex-1 ${inputClass}`}
+          />
+          <button
+            type="button"
+            onClick={search}
+            disabled={searching}
+            className="rounded-full bg-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {searching ? "Searching..." : "Search"}
+          </button>
+        </div>
+      )}
+
+      {error ? <span className="text-xs font-normal text-red-600">{error}</span> : null}
+
+      {!manual && results.length > 0 ? (
+        <ul className="grid gap-1">
+          {results.map((result) => (
+            <li key={`${result.label}-${result.lat}-${result.lng}`}>
+              <button
+                type="button"
+                onClick={() => onChange(result)}
+                className="w-full rounded-xl border border-[var(--prime-sand)] bg-white px-3 py-2 text-left text-sm font-normal transition hover:border-[var(--prime-forest)]"
+              >
+                {result.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {!manual && searched && results.length === 0 ? (
+        <span className="text-xs font-normal text-[color:rgba(20,21,22,0.6)]">
+          No matches found.
+        </span>
+      ) : null}
+
+      <button
+        type="button"
+        onClick={() => {
+          setManual((prev) => !prev);
+          setError(null);
+        }}
+        className="justify-self-start text-xs font-semibold text-[var(--prime-forest)]"
+      >
+        {manual ? "Search for an address instead" : "Enter suburb and postcode instead"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+import { resolveFileUrl, type PrivateFile } from "@/lib/uploads";
+
+type AttachmentListProps = {
+  attachments: PrivateFile[];
+};
+
+export default function AttachmentList({ attachments }: AttachmentListProps) {
+  const [openingPath, setOpeningPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const openFile = async (file: PrivateFile) => {
+    // Open the tab synchronously so popup blockers allow it, then point it at
+    // the file once access has been checked.
+    const opened = window.open("", "_blank");
+    setOpeningPath(file.path);
+    setError(null);
+
+    try {
+      const url = await resolveFileUrl(file.path);
+      if (opened) {
+        opened.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    } catch {
+      opened?.close();
+      setError("You don't have access to this file.");
+    } finally {
+      setOpeningPath(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 text-xs">
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((file) => (
+          <button
+            key={file.path}
+            type="button"
+            onClick={() => openFile(file)}
+            disabled={openingPath === file.path}
+            className="rounded-full border border-[var(--prime-sand)] bg-white px-3 py-1 font-semibold text-[var(--prime-forest)] disabled:cursor-wait disabled:opacity-70"
+          >
+            {file.name}
+          </button>
+        ))}
+      </div>
+      {error ? <p className="text-red-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  calendarFeedUrl,
+  loadCalendarFeedToken,
+  resetCalendarFeedToken,
+} from "@/lib/calendarFeeds";
+
+type CalendarFeedPanelProps = {
+  uid: string;
+};
+
+export default function CalendarFeedPanel({ uid }: CalendarFeedPanelProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    loadCalendarFeedToken(uid)
+      .then((loaded) => {
+        if (active) setToken(loaded);
+      })
+      .catch(() => {
+        if (active) setError("Unable to load your calendar link.");
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [uid]);
+
+  const createLink = async () => {
+    setWorking(true);
+    setError(null);
+    setCopied(false);
+
+    try {
+      setToken(await resetCalendarFeedToken(uid));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to create a calendar link.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(token));
+      setCopied(true);
+    } catch {
+      setError("Copy the link manually.");
+    }
+  };
+
+  const url = token ? calendarFeedUrl(token) : "";
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+      <div>
+        <p className="font-medium">Calendar subscription</p>
+        <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+          Subscribe from Google Calendar or Apple Calendar to see accepted bookings. Keep this
+          link private; anyone with it can see your bookings.
+        </p>
+      </div>
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+      {url ? (
+        <input
+          readOnly
+          value={url}
+          onFocus={(event) => event.target.select()}
+          className="w-full rounded-xl border border-[var(--prime-sand)] px-3 py-2 text-xs"
+        />
+      ) : null}
+      <div className="flex flex-wrap items-center gap-2">
+        {url ? (
+          <>
+            <button
+              type="button"
+              onClick={copyLink}
+              className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white"
+            >
+              {copied ? "Copied" : "Copy link"}
+            </button>
+            <a
+              href={url.replace(/^https?:/, "webcal:")}
+              className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)]"
+            >
+              Subscribe
+            </a>
+          </>
+        ) : null}
+        <button
+          type="button"
+          onClick={createLink}
+          disabled={loading || working}
+          className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {working ? "Working..." : url ? "Reset link" : "Create calendar link"}
+        </button>
+      </div>
+    </div>
+  );
+}
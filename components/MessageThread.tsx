@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import AttachmentList from "@/components/AttachmentList";
+import {
+  markThreadRead,
+  MAX_MESSAGE_IMAGES,
+  MAX_MESSAGE_LENGTH,
+  sendBookingMessage,
+  subscribeToMessages,
+  type BookingMessage,
+  type MessageRole,
+} from "@/lib/messages";
+import { formatTimestampLocal } from "@/lib/timezones";
+import { ACCEPTED_IMAGE_TYPES } from "@/lib/uploads";
+
+type MessageThreadProps = {
+  bookingId: string;
+  viewer: { uid: string; role: MessageRole };
+  counterpartName: string;
+  unread: number;
+};
+
+function formatMessageTime(message: BookingMessage): string {
+  return message.createdAt ? formatTimestampLocal(message.createdAt) : "Sending...";
+}
+
+export default function MessageThread({
+  bookingId,
+  viewer,
+  counterpartName,
+  unread,
+}: MessageThreadProps) {
+  const [messages, setMessages] = useState<BookingMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const [images, setImages] = useState<File[]>([]);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToMessages(
+      bookingId,
+      (nextMessages) => {
+        setMessages(nextMessages);
+        setLoading(false);
+      },
+      (err) => {
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [bookingId]);
+
+  // The thread is open, so anything that arrives counts as read.
+  useEffect(() => {
+    if (unread > 0) {
+      void markThreadRead(bookingId, viewer.role).catch(() => undefined);
+    }
+  }, [bookingId, unread, viewer.role]);
+
+  const send = async () => {
+    setSending(true);
+    setError(null);
+
+    try {
+      await sendBookingMessage(bookingId, viewer, text, images);
+      setText("");
+      setImages([]);
+      setFileInputKey((prev) => prev + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to send message.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+      {loading ? (
+        <p className="text-[color:rgba(20,21,22,0.7)]">Loading messages...</p>
+      ) : null}
+      {!loading && messages.length === 0 ? (
+        <p className="text-[color:rgba(20,21,22,0.7)]">
+          No messages yet. Say hello to {counterpartName}.
+        </p>
+      ) : null}
+
+      <ul className="max-h-80 space-y-3 overflow-y-auto">
+        {messages.map((message) => {
+          const mine = message.senderUid === viewer.uid;
+          return (
+            <li key={message.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+              <div
+                className={`max-w-[80%] rounded-2xl px-4 py-2 ${
+                  mine
+                    ? "bg-[var(--prime-forest)] text-white"
+                    : "bg-[var(--prime-cream)] text-[var(--prime-ink)]"
+                }`}
+              >
+                {message.text ? <p className="whitespace-pre-wrap">{message.text}</p> : null}
+                <AttachmentList attachments={message.attachments} />
+                <p
+                  className={`mt-1 text-[11px] ${
+                    mine ? "text-white/70" : "text-[color:rgba(20,21,22,0.5)]"
+                  }`}
+                >
+                  {mine ? "You" : counterpartName} • {formatMessageTime(message)}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error ? (
+        <p className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+
+      <textarea
+        rows={2}
+        value={text}
+        maxLength={MAX_MESSAGE_LENGTH}
+        onChange={(event) => setText(event.target.value)}
+        placeholder={`Message ${counterpartName}`}
+        className="w-full rounded-2xl border border-[var(--prime-sand)] px-4 py-3 outline-none transition focus:border-[var(--prime-forest)]"
+      />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <input
+          key={fileInputKey}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(",")}
+          multiple
+          onChange={(event) =>
+            setImages(Array.from(event.target.files || []).slice(0, MAX_MESSAGE_IMAGES))
+          }
+          className="text-xs"
+        />
+        <button
+          type="button"
+          onClick={send}
+          disabled={sending || (!text.trim() && images.length === 0)}
+          className="rounded-full bg-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {sending ? "Sending..." : "Send"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeToNotifications,
+  type AppNotification,
+} from "@/lib/notifications";
+import { formatTimestampLocal } from "@/lib/timezones";
+
+type NotificationBellProps = {
+  uid: string;
+};
+
+function formatWhen(notification: AppNotification): string {
+  return notification.createdAt ? formatTimestampLocal(notification.createdAt) : "Just now";
+}
+
+export default function NotificationBell({ uid }: NotificationBellProps) {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToNotifications(uid, setNotifications, (err) =>
+      setError(err.message)
+    );
+    return () => unsubscribe();
+  }, [uid]);
+
+  const unread = notifications.filter((notification) => !notification.read);
+
+  const openNotification = async (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.read) {
+      await markNotificationRead(uid, notification.id).catch(() => undefined);
+    }
+    if (!notification.link) return;
+
+    // router.push changes the URL with pushState, which doesn't fire
+    // hashchange, so a link into the current page announces the new hash
+    // itself for useHashTarget to pick up.
+    const target = new URL(notification.link, window.location.href);
+    if (target.pathname === window.location.pathname && target.hash) {
+      if (target.hash !== window.location.hash) {
+        window.history.pushState(window.history.state, "", target.hash);
+      }
+      window.dispatchEvent(new HashChangeEvent("hashchange"));
+      return;
+    }
+    router.push(notification.link);
+  };
+
+  const markAllRead = async () => {
+    try {
+      await markAllNotificationsRead(
+        uid,
+        unread.map((notification) => notification.id)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update notifications.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-label={`Notifications${unread.length ? ` (${unread.length} unread)` : ""}`}
+        className="relative rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-forest)] transition hover:bg-[var(--prime-forest)] hover:text-white"
+      >
+        Notifications
+        {unread.length > 0 ? (
+          <span className="ml-2 rounded-full bg-[var(--prime-copper)] px-2 py-0.5 text-[10px] text-white">
+            {unread.length}
+          </span>
+        ) : null}
+      </button>
+
+      {open ? (
+        <div className="absolute right-0 z-20 mt-2 w-80 max-w-[90vw] rounded-2xl border border-[var(--prime-sand)] bg-white p-3 text-sm shadow-[0_18px_45px_rgba(15,42,34,0.18)]">
+          <div className="flex items-center justify-between gap-2 px-1 pb-2">
+            <p className="text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+              Notifications
+            </p>
+            <button
+              type="button"
+              onClick={markAllRead}
+              disabled={unread.length === 0}
+              className="text-xs font-semibold text-[var(--prime-forest)] disabled:opacity-50"
+            >
+              Mark all read
+            </button>
+          </div>
+          {error ? <p className="px-1 pb-2 text-xs text-red-600">{error}</p> : null}
+          {notifications.length === 0 ? (
+            <p className="px-1 py-3 text-xs text-[color:rgba(20,21,22,0.6)]">
+              Nothing new yet.
+            </p>
+          ) : (
+            <ul className="max-h-96 space-y-1 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => openNotification(notification)}
+                    className={`w-full rounded-xl px-3 py-2 text-left transition hover:bg-[var(--prime-cream)] ${
+                      notification.read ? "" : "bg-[var(--prime-cream)]/60"
+                    }`}
+                  >
+                    <p className={notification.read ? "" : "font-semibold"}>
+                      {notification.title}
+                    </p>
+                    {notification.body ? (
+                      <p className="mt-0.5 text-xs text-[color:rgba(20,21,22,0.7)]">
+                        {notification.body}
+                      </p>
+                    ) : null}
+                    <p className="mt-1 text-[11px] text-[color:rgba(20,21,22,0.5)]">
+                      {formatWhen(notification)}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
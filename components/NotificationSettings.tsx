@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  defaultNotificationPreferences,
+  notificationTopicLabels,
+  type NotificationPreferences,
+  type NotificationTopic,
+} from "@/lib/notificationPreferences";
+import { loadNotificationPreferences, saveNotificationPreferences } from "@/lib/notifications";
+
+type NotificationSettingsProps = {
+  uid: string;
+  topics: NotificationTopic[];
+};
+
+export default function NotificationSettings({ uid, topics }: NotificationSettingsProps) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    defaultNotificationPreferences
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    loadNotificationPreferences(uid)
+      .then((loaded) => {
+        if (active) setPreferences(loaded);
+      })
+      .catch(() => {
+        if (active) setError("Unable to load your email settings.");
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [uid]);
+
+  const toggle = (topic: NotificationTopic) => {
+    setSaved(false);
+    setPreferences((prev) => ({
+      ...prev,
+      email: { ...prev.email, [topic]: !prev.email[topic] },
+    }));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveNotificationPreferences(uid, preferences);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save your email settings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-[var(--prime-sand)] bg-white p-4 text-sm">
+      <p className="font-medium">Email notifications</p>
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+      {topics.map((topic) => (
+        <label key={topic} className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={preferences.email[topic]}
+            disabled={loading}
+            onChange={() => toggle(topic)}
+            className="mt-1"
+          />
+          <span>
+            <span className="font-semibold">{notificationTopicLabels[topic].label}</span>
+            <span className="block text-xs text-[color:rgba(20,21,22,0.6)]">
+              {notificationTopicLabels[topic].description}
+            </span>
+          </span>
+        </label>
+      ))}
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={save}
+          disabled={loading || saving}
+          className="rounded-full border border-[var(--prime-forest)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[var(--prime-forest)] disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving ? "Saving..." : "Save email settings"}
+        </button>
+        {saved ? <span className="text-xs text-[var(--prime-forest)]">Saved.</span> : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onAuthStateChanged } from "firebase/auth";
+import { doc, getDoc } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { MAX_REPORT_REASON_LENGTH, reportReview, type ReviewReport } from "@/lib/reviews";
+
+type Reporter = { uid: string; role: ReviewReport["reporterRole"] };
+
+type ReportReviewButtonProps = {
+  reviewId: string;
+};
+
+// Signed-in customers and providers can flag a review for the admin queue.
+// Everyone else sees nothing, since the public profile is readable signed out.
+export default function ReportReviewButton({ reviewId }: ReportReviewButtonProps) {
+  const [reporter, setReporter] = useState<Reporter | null>(null);
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        setReporter(null);
+        return;
+      }
+      try {
+        const userDoc = await getDoc(doc(db, "users", user.uid));
+        const role = userDoc.exists() ? userDoc.data().role : null;
+        setReporter(
+          role === "customer" || role === "provider" ? { uid: user.uid, role } : null
+        );
+      } catch {
+        setReporter(null);
+      }
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  if (!reporter) return null;
+
+  if (sent) {
+    return (
+      <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+        Thanks, our team will take a look.
+      </p>
+    );
+  }
+
+  const submit = async () => {
+    setSending(true);
+    setError(null);
+    try {
+      await reportReview(reviewId, reporter, reason);
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to report this review.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-xs font-semibold text-[color:rgba(20,21,22,0.6)] underline-offset-2 hover:underline"
+      >
+        Report
+      </button>
+    );
+  }
+
+  return (
+    <div className="grid gap-2">
+      <textarea
+        rows={2}
+        value={reason}
+        maxLength={MAX_REPORT_REASON_LENGTH}
+        onChange={(event) => setReason(event.target.value)}
+        placeholder="What is wrong with this review?"
+        className="rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-2 text-sm outline-none transition focus:border-[var(--prime-forest)]"
+      />
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+      <div className="flex gap-3 text-xs font-semibold">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={sending}
+          className="text-red-700 disabled:opacity-60"
+        >
+          {sending ? "Reporting..." : "Send report"}
+        </button>
+        <button type="button" onClick={() => setOpen(false)}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ADDRESS_LABEL_SUGGESTIONS,
+  formatAddressLine,
+  validateSavedAddress,
+  type SavedAddress,
+} from "@/lib/addresses";
+import { searchAddresses } from "@/lib/geocoding";
+
+type SavedAddressFormProps = {
+  initial: SavedAddress;
+  submitLabel: string;
+  onSave: (address: SavedAddress) => Promise<void>;
+  onCancel?: () => void;
+};
+
+const inputClass =
+  "rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm font-normal outline-none transition focus:border-[var(--prime-forest)]";
+
+const fieldClass = "grid gap-2 text-sm font-medium text-[var(--prime-ink)]";
+
+// Coordinates are looked up on save so distance and radius matching work; an
+// address the geocoder can't place still saves and matches by suburb/postcode.
+async function locate(address: SavedAddress): Promise<Pick<SavedAddress, "lat" | "lng">> {
+  try {
+    const [match] = await searchAddresses(formatAddressLine(address));
+    return match ? { lat: match.lat, lng: match.lng } : { lat: null, lng: null };
+  } catch {
+    return { lat: null, lng: null };
+  }
+}
+
+export default function SavedAddressForm({
+  initial,
+  submitLabel,
+  onSave,
+  onCancel,
+}: SavedAddressFormProps) {
+  const [draft, setDraft] = useState<SavedAddress>(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<SavedAddress>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+  };
+
+  const submit = async () => {
+    const trimmed = Object.fromEntries(
+      Object.entries(draft).map(([key, value]) => [
+        key,
+        typeof value === "string" ? value.trim() : value,
+      ])
+    ) as SavedAddress;
+    const message = validateSavedAddress(trimmed);
+    if (message) {
+      setError(message);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const moved =
+        trimmed.street !== initial.street ||
+        trimmed.suburb !== initial.suburb ||
+        trimmed.postcode !== initial.postcode;
+      const coordinates =
+        moved || trimmed.lat === null ? await locate(trimmed) : trimmed;
+      await onSave({ ...trimmed, lat: coordinates.lat, lng: coordinates.lng });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save this address.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-[var(--prime-sand)] bg-white/80 p-4">
+      <div className="space-y-2">
+        <label className={fieldClass}>
+          Label
+          <input
+            value={draft.label}
+            onChange={(event) => update({ label: event.target.value })}
+            placeholder="Home"
+            className={inputClass}
+          />
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {ADDRESS_LABEL_SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => update({ label: suggestion })}
+              className="rounded-full border border-[var(--prime-sand)] px-3 py-1 text-xs font-semibold"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[1fr_8rem]">
+        <label className={fieldClass}>
+          Street
+          <input
+            value={draft.street}
+            onChange={(event) => update({ street: event.target.value })}
+            placeholder="24 Parkview Lane"
+            className={inputClass}
+          />
+        </label>
+        <label className={fieldClass}>
+          Unit
+          <input
+            value={draft.unit}
+            onChange={(event) => update({ unit: event.target.value })}
+            placeholder="4B"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className={fieldClass}>
+          Suburb
+          <input
+            value={draft.suburb}
+            onChange={(event) => update({ suburb: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className={fieldClass}>
+          City
+          <input
+            value={draft.city}
+            onChange={(event) => update({ city: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className={fieldClass}>
+          Postcode
+          <input
+            value={draft.postcode}
+            onChange={(event) => update({ postcode: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <label className={fieldClass}>
+        Access instructions (optional)
+        <textarea
+          rows={2}
+          value={draft.accessInstructions}
+          onChange={(event) => update({ accessInstructions: event.target.value })}
+          placeholder="Side entrance, ring the second buzzer"
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className={fieldClass}>
+          Gate code (optional)
+          <input
+            value={draft.gateCode}
+            onChange={(event) => update({ gateCode: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className={fieldClass}>
+          Parking (optional)
+          <input
+            value={draft.parkingNotes}
+            onChange={(event) => update({ parkingNotes: event.target.value })}
+            placeholder="Visitor bays on level 1"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={saving}
+          className="rounded-full bg-[var(--prime-forest)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-white disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving ? "Saving..." : submitLabel}
+        </button>
+        {onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-full border border-[var(--prime-sand)] px-5 py-2 text-xs font-semibold uppercase tracking-[0.14em]"
+          >
+            Cancel
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
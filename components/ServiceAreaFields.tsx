@@ -0,0 +1,94 @@
+"use client";
+
+import AddressPicker from "@/components/AddressPicker";
+import {
+  parsePlaces,
+  RADIUS_OPTIONS_KM,
+  type ServiceArea,
+  type StructuredAddress,
+} from "@/lib/geo";
+
+type ServiceAreaFieldsProps = {
+  area: ServiceArea;
+  // Kept as typed so commas and spaces survive editing; parsePlaces runs on save.
+  places: string;
+  onAreaChange: (area: ServiceArea) => void;
+  onPlacesChange: (places: string) => void;
+};
+
+const inputClass =
+  "rounded-2xl border border-[var(--prime-sand)] bg-white px-4 py-3 text-sm outline-none transition focus:border-[var(--prime-forest)]";
+
+// Centre point, travel radius and place list, shared by the application form
+// and the provider dashboard.
+export default function ServiceAreaFields({
+  area,
+  places,
+  onAreaChange,
+  onPlacesChange,
+}: ServiceAreaFieldsProps) {
+  // A hand-typed suburb that couldn't be located has no coordinates to centre
+  // a radius on, so it joins the place list instead.
+  const updateCentre = (address: StructuredAddress | null) => {
+    if (address && (address.lat === null || address.lng === null)) {
+      onPlacesChange(
+        [...parsePlaces(places), address.suburb, address.postcode].filter(Boolean).join(", ")
+      );
+      return;
+    }
+    onAreaChange({
+      ...area,
+      centre:
+        address && address.lat !== null && address.lng !== null
+          ? { lat: address.lat, lng: address.lng, label: address.label }
+          : null,
+    });
+  };
+
+  return (
+    <>
+      <AddressPicker
+        label="Centre point"
+        value={
+          area.centre
+            ? {
+                label: area.centre.label || "Saved location",
+                suburb: "",
+                postcode: "",
+                lat: area.centre.lat,
+                lng: area.centre.lng,
+              }
+            : null
+        }
+        placeholder="Your base address or suburb"
+        onChange={updateCentre}
+      />
+      {area.centre ? (
+        <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+          Travel radius
+          <select
+            value={area.radiusKm}
+            onChange={(event) => onAreaChange({ ...area, radiusKm: Number(event.target.value) })}
+            className={inputClass}
+          >
+            {RADIUS_OPTIONS_KM.map((km) => (
+              <option key={km} value={km}>
+                {km} km
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+      <label className="grid gap-2 text-sm font-medium text-[var(--prime-ink)]">
+        Suburbs and postcodes
+        <textarea
+          rows={2}
+          value={places}
+          onChange={(event) => onPlacesChange(event.target.value)}
+          placeholder="Separate with commas, e.g. Newtown, 2042"
+          className={inputClass}
+        />
+      </label>
+    </>
+  );
+}
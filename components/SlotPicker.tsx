@@ -0,0 +1,120 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatDateKey, type DayAvailability } from "@/lib/availability";
+import { timeZoneLabel } from "@/lib/timezones";
+
+type SlotPickerProps = {
+  availability: DayAvailability[];
+  date: string;
+  time: string;
+  loading: boolean;
+  emptyMessage?: string;
+  timeZone?: string;
+  onSelect: (date: string, time: string) => void;
+};
+
+export default function SlotPicker({
+  availability,
+  date,
+  time,
+  loading,
+  emptyMessage = "No open slots in the next two weeks. Try another provider.",
+  timeZone,
+  onSelect,
+}: SlotPickerProps) {
+  const nextOpenSlots = useMemo(
+    () =>
+      availability
+        .flatMap((day) => day.slots.map((slot) => ({ date: day.date, time: slot })))
+        .slice(0, 4),
+    [availability]
+  );
+
+  const selectedDay =
+    availability.find((day) => day.date === date) ||
+    availability.find((day) => day.slots.length > 0) ||
+    null;
+
+  return (
+    <div className="space-y-5">
+      {timeZone ? (
+        <p className="text-xs text-[color:rgba(20,21,22,0.6)]">
+          Times are local to the job: {timeZoneLabel(timeZone)}
+        </p>
+      ) : null}
+      {loading ? (
+        <p className="text-sm text-[color:rgba(20,21,22,0.7)]">Loading open slots...</p>
+      ) : null}
+      {!loading && nextOpenSlots.length === 0 ? (
+        <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          {emptyMessage}
+        </p>
+      ) : null}
+
+      {nextOpenSlots.length > 0 ? (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.16em] text-[var(--prime-copper)]">
+            Next available
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {nextOpenSlots.map((slot) => (
+              <button
+                key={`${slot.date}-${slot.time}`}
+                type="button"
+                onClick={() => onSelect(slot.date, slot.time)}
+                className={`rounded-full border px-4 py-2 text-xs font-semibold transition ${
+                  date === slot.date && time === slot.time
+                    ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                    : "border-[var(--prime-sand)] bg-white hover:border-[var(--prime-forest)]"
+                }`}
+              >
+                {formatDateKey(slot.date)} • {slot.time}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-7">
+        {availability.map((day) => (
+          <button
+            key={day.date}
+            type="button"
+            disabled={day.slots.length === 0}
+            onClick={() => onSelect(day.date, "")}
+            className={`rounded-2xl border px-2 py-3 text-center text-xs transition disabled:cursor-not-allowed disabled:opacity-40 ${
+              selectedDay?.date === day.date
+                ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                : "border-[var(--prime-sand)] bg-white hover:border-[var(--prime-forest)]"
+            }`}
+          >
+            <span className="block font-semibold">{formatDateKey(day.date)}</span>
+            <span className="block">
+              {day.slots.length === 0 ? "Unavailable" : `${day.slots.length} open`}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selectedDay && selectedDay.slots.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {selectedDay.slots.map((slot) => (
+            <button
+              key={slot}
+              type="button"
+              onClick={() => onSelect(selectedDay.date, slot)}
+              className={`rounded-full border px-4 py-2 text-sm font-medium transition ${
+                date === selectedDay.date && time === slot
+                  ? "border-[var(--prime-forest)] bg-[var(--prime-forest)] text-white"
+                  : "border-[var(--prime-sand)] bg-white hover:border-[var(--prime-forest)]"
+              }`}
+            >
+              {slot}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
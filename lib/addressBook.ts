@@ -0,0 +1,70 @@
+import { collection, doc, getDoc, runTransaction, serverTimestamp } from "firebase/firestore";
+import {
+  MAX_SAVED_ADDRESSES,
+  parseAddressBook,
+  validateSavedAddress,
+  type SavedAddress,
+} from "@/lib/addresses";
+import { db } from "@/lib/firebase";
+
+// Addresses live in an array on users/{uid} so the booking flow can load them
+// with the profile in one read.
+export async function loadAddressBook(uid: string): Promise<SavedAddress[]> {
+  const snapshot = await getDoc(doc(db, "users", uid));
+  return parseAddressBook(snapshot.data()?.addresses);
+}
+
+// Adds the address, or replaces the saved one with the same id. Returns the
+// stored copy, which has an id even when the input didn't.
+export async function saveAddress(uid: string, address: SavedAddress): Promise<SavedAddress> {
+  const message = validateSavedAddress(address);
+  if (message) {
+    throw new Error(message);
+  }
+
+  const userRef = doc(db, "users", uid);
+  const saved: SavedAddress = {
+    ...address,
+    id: address.id || doc(collection(db, "users", uid, "addresses")).id,
+    label: address.label || "Address",
+  };
+
+  await runTransaction(db, async (transaction) => {
+    const userSnap = await transaction.get(userRef);
+    const current = parseAddressBook(userSnap.data()?.addresses);
+    const exists = current.some((item) => item.id === saved.id);
+    if (!exists && current.length >= MAX_SAVED_ADDRESSES) {
+      throw new Error(`You can save up to ${MAX_SAVED_ADDRESSES} addresses.`);
+    }
+
+    transaction.set(
+      userRef,
+      {
+        addresses: exists
+          ? current.map((item) => (item.id === saved.id ? saved : item))
+          : [...current, saved],
+        updatedAt: serverTimestamp(),
+      },
+      { merge: true }
+    );
+  });
+
+  return saved;
+}
+
+export async function deleteAddress(uid: string, addressId: string) {
+  const userRef = doc(db, "users", uid);
+
+  await runTransaction(db, async (transaction) => {
+    const userSnap = await transaction.get(userRef);
+    const current = parseAddressBook(userSnap.data()?.addresses);
+    transaction.set(
+      userRef,
+      {
+        addresses: current.filter((item) => item.id !== addressId),
+        updatedAt: serverTimestamp(),
+      },
+      { merge: true }
+    );
+  });
+}
@@ -0,0 +1,141 @@
+// Saved customer addresses. Read by the booking flow, the provider dashboard
+// and the server-side mailer, so this file must not import the Firebase client
+// SDK.
+import type { StructuredAddress } from "@/lib/geo";
+
+export type SavedAddress = {
+  id: string;
+  label: string;
+  street: string;
+  unit: string;
+  suburb: string;
+  city: string;
+  postcode: string;
+  accessInstructions: string;
+  gateCode: string;
+  parkingNotes: string;
+  lat: number | null;
+  lng: number | null;
+};
+
+export const MAX_SAVED_ADDRESSES = 10;
+
+export const ADDRESS_LABEL_SUGGESTIONS = ["Home", "Work", "Parents"];
+
+export function emptySavedAddress(): SavedAddress {
+  return {
+    id: "",
+    label: "",
+    street: "",
+    unit: "",
+    suburb: "",
+    city: "",
+    postcode: "",
+    accessInstructions: "",
+    gateCode: "",
+    parkingNotes: "",
+    lat: null,
+    lng: null,
+  };
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function coordinate(value: unknown, limit: number): number | null {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit
+    ? value
+    : null;
+}
+
+export function parseSavedAddress(value: unknown): SavedAddress | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  const address: SavedAddress = {
+    id: text(data.id),
+    label: text(data.label),
+    street: text(data.street),
+    unit: text(data.unit),
+    suburb: text(data.suburb),
+    city: text(data.city),
+    postcode: text(data.postcode),
+    accessInstructions: text(data.accessInstructions),
+    gateCode: text(data.gateCode),
+    parkingNotes: text(data.parkingNotes),
+    lat: coordinate(data.lat, 90),
+    lng: coordinate(data.lng, 180),
+  };
+  return address.street ? address : null;
+}
+
+export function parseAddressBook(value: unknown): SavedAddress[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(parseSavedAddress)
+    .filter((item): item is SavedAddress => item !== null && Boolean(item.id));
+}
+
+export function validateSavedAddress(address: SavedAddress): string | null {
+  if (!address.street) return "Enter the street address.";
+  if (!address.suburb && !address.postcode) return "Enter a suburb or postcode.";
+  if (address.label.length > 40) return "Keep the label under 40 characters.";
+  return null;
+}
+
+// The one-line form stored as `address` on bookings and used in emails and
+// calendar files. Gate codes and access notes are kept out of it on purpose.
+export function formatAddressLine(address: SavedAddress): string {
+  const street = address.unit ? `${address.unit}/${address.street}` : address.street;
+  const locality = [address.suburb, address.city].filter(Boolean).join(", ");
+  return [street, [locality, address.postcode].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function toStructuredAddress(address: SavedAddress): StructuredAddress {
+  return {
+    label: formatAddressLine(address),
+    suburb: address.suburb,
+    postcode: address.postcode,
+    lat: address.lat,
+    lng: address.lng,
+  };
+}
+
+// The parts of an address that let someone into the property. They are kept
+// off the booking document and stored where only the customer, and the
+// provider once they have accepted, can read them.
+export type PrivateAccess = Pick<SavedAddress, "accessInstructions" | "gateCode">;
+
+export function parsePrivateAccess(value: unknown): PrivateAccess {
+  const data = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return { accessInstructions: text(data.accessInstructions), gateCode: text(data.gateCode) };
+}
+
+export function privateAccessOf(address: SavedAddress): PrivateAccess {
+  return { accessInstructions: address.accessInstructions, gateCode: address.gateCode };
+}
+
+export function withoutPrivateAccess(address: SavedAddress): SavedAddress {
+  return { ...address, accessInstructions: "", gateCode: "" };
+}
+
+// Where the job is, without anything that opens the door.
+export function locationDetails(address: SavedAddress): { label: string; value: string }[] {
+  return [
+    { label: "Unit", value: address.unit },
+    { label: "Suburb", value: address.suburb },
+    { label: "City", value: address.city },
+    { label: "Postcode", value: address.postcode },
+  ].filter((item) => Boolean(item.value));
+}
+
+// Visit details a provider needs on arrival, in display order.
+export function accessDetails(address: SavedAddress): { label: string; value: string }[] {
+  return [
+    { label: "Access", value: address.accessInstructions },
+    { label: "Gate code", value: address.gateCode },
+    { label: "Parking", value: address.parkingNotes },
+  ].filter((item) => Boolean(item.value));
+}
@@ -0,0 +1,187 @@
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { SLOT_HOLDING_STATUSES } from "@/lib/bookingStatus";
+import { db } from "@/lib/firebase";
+import { minutesToTime, timeToMinutes, type ProviderSchedule } from "@/lib/schedule";
+import { dateKeyInTimeZone, zonedDateTimeToUtc } from "@/lib/timezones";
+
+export const AVAILABILITY_WINDOW_DAYS = 14;
+// Customers can't grab a slot starting sooner than this.
+export const MIN_LEAD_MINUTES = 60;
+
+export type BookedSlot = {
+  date: string;
+  time: string;
+  // How long the booking runs. Older entries and proposed times leave it out
+  // and take up a single slot.
+  minutes?: number;
+};
+
+export type DayAvailability = {
+  date: string;
+  weekday: number;
+  slots: string[];
+};
+
+export function toDateKey(value: Date): string {
+  const year = value.getFullYear();
+  const month = String(value.getMonth() + 1).padStart(2, "0");
+  const day = String(value.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+export function formatDateKey(value: string): string {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export async function loadBookedSlots(
+  providerUid: string,
+  options: { excludeBookingId?: string } = {}
+): Promise<BookedSlot[]> {
+  const snapshot = await getDocs(
+    query(
+      collection(db, "bookings"),
+      where("providerUid", "==", providerUid),
+      where("status", "in", SLOT_HOLDING_STATUSES)
+    )
+  );
+
+  return snapshot.docs
+    .filter((docSnap) => docSnap.id !== options.excludeBookingId)
+    .map((docSnap) => docSnap.data())
+    .filter((data) => typeof data.date === "string" && typeof data.time === "string")
+    .map((data) => ({
+      date: data.date as string,
+      time: data.time as string,
+      minutes: Math.round((Number(data.estimatedHours) || 0) * 60),
+    }));
+}
+
+// A job is never shorter than one slot, however few hours were estimated.
+function jobMinutes(schedule: ProviderSchedule, minutes: number | undefined): number {
+  return Math.max(schedule.slotMinutes, Number.isFinite(minutes) ? Number(minutes) : 0);
+}
+
+// Every slot start a booking runs into, its own first. A booking holds all of
+// them so a long job can't be double-booked in its later hours.
+export function coveredSlotTimes(
+  schedule: ProviderSchedule,
+  time: string,
+  estimatedHours: number
+): string[] {
+  const occupied = schedule.slotMinutes + schedule.bufferMinutes;
+  const length = jobMinutes(schedule, Math.round(estimatedHours * 60)) + schedule.bufferMinutes;
+  const start = timeToMinutes(time);
+  const times: string[] = [];
+  for (let offset = 0; offset < length && start + offset < 24 * 60; offset += occupied) {
+    times.push(minutesToTime(start + offset));
+  }
+  return times;
+}
+
+// `day` is a calendar date; its clock fields are ignored. Slot start times are
+// compared with `earliest` on the schedule's own time zone. `minutes` is the
+// length of the job being placed, which has to finish within working hours.
+function openSlotsForDay(
+  schedule: ProviderSchedule,
+  booked: BookedSlot[],
+  day: Date,
+  earliest: number,
+  minutes?: number
+): string[] {
+  const date = toDateKey(day);
+  const hours = schedule.weeklyHours[day.getDay()];
+  if (!hours?.enabled || schedule.blockedDates.includes(date)) return [];
+
+  const occupied = schedule.slotMinutes + schedule.bufferMinutes;
+  const length = jobMinutes(schedule, minutes);
+  const taken = booked
+    .filter((item) => item.date === date)
+    .map((item) => {
+      const bookedStart = timeToMinutes(item.time);
+      return {
+        start: bookedStart,
+        end: bookedStart + jobMinutes(schedule, item.minutes) + schedule.bufferMinutes,
+      };
+    });
+  const dayStart = timeToMinutes(hours.start);
+  const dayEnd = timeToMinutes(hours.end);
+  const slots: string[] = [];
+
+  for (let start = dayStart; start + length <= dayEnd; start += occupied) {
+    const startsAt = zonedDateTimeToUtc(date, minutesToTime(start), schedule.timeZone);
+    if (startsAt.getTime() < earliest) continue;
+
+    const end = start + length + schedule.bufferMinutes;
+    const clashes = taken.some((item) => start < item.end && item.start < end);
+    if (!clashes) {
+      slots.push(minutesToTime(start));
+    }
+  }
+
+  return slots;
+}
+
+export function computeAvailability(
+  schedule: ProviderSchedule,
+  booked: BookedSlot[],
+  options: { from?: Date; days?: number; minutes?: number } = {}
+): DayAvailability[] {
+  const from = options.from || new Date();
+  const days = options.days || AVAILABILITY_WINDOW_DAYS;
+  const earliest = from.getTime() + MIN_LEAD_MINUTES * 60 * 1000;
+  const result: DayAvailability[] = [];
+
+  // Day one is "today" where the provider works, not where the viewer is.
+  const [year, month, date] = dateKeyInTimeZone(from, schedule.timeZone).split("-").map(Number);
+
+  for (let offset = 0; offset < days; offset += 1) {
+    const day = new Date(year, month - 1, date + offset);
+    result.push({
+      date: toDateKey(day),
+      weekday: day.getDay(),
+      slots: openSlotsForDay(schedule, booked, day, earliest, options.minutes),
+    });
+  }
+
+  return result;
+}
+
+// Checks a single slot on any date, including ones past the picker's window.
+export function isSlotOpen(
+  schedule: ProviderSchedule,
+  booked: BookedSlot[],
+  date: string,
+  time: string,
+  options: { now?: Date; minutes?: number } = {}
+): boolean {
+  const [year, month, day] = date.split("-").map(Number);
+  const earliest = (options.now || new Date()).getTime() + MIN_LEAD_MINUTES * 60 * 1000;
+  return openSlotsForDay(
+    schedule,
+    booked,
+    new Date(year, month - 1, day),
+    earliest,
+    options.minutes
+  ).includes(time);
+}
+
+// Combines several providers' calendars into the slots at least one of them
+// has free.
+export function mergeAvailability(calendars: DayAvailability[][]): DayAvailability[] {
+  const byDate = new Map<string, DayAvailability>();
+
+  for (const day of calendars.flat()) {
+    const existing = byDate.get(day.date);
+    byDate.set(day.date, {
+      ...day,
+      slots: Array.from(new Set([...(existing?.slots || []), ...day.slots])).sort(),
+    });
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
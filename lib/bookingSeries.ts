@@ -0,0 +1,299 @@
+import {
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  type DocumentData,
+} from "firebase/firestore";
+import { withoutPrivateAccess } from "@/lib/addresses";
+import { coveredSlotTimes, formatDateKey, isSlotOpen } from "@/lib/availability";
+import {
+  applyTransition,
+  assertBeforeCutoff,
+  assertCoversLocation,
+  assertSlotsAvailable,
+  bookingStartTimestamp,
+  historyEntry,
+  holdSlots,
+  isPastCancellationCutoff,
+  respondByTimestamp,
+  splitServiceAddress,
+  transitionBooking,
+  type NewBookingRequest,
+} from "@/lib/bookings";
+import {
+  SLOT_HOLDING_STATUSES,
+  toBookingStatus,
+  type BookingActorRole,
+} from "@/lib/bookingStatus";
+import { db } from "@/lib/firebase";
+import { requestNotification } from "@/lib/notifications";
+import { parsePricing, priceForService } from "@/lib/pricing";
+import { describeRecurrence, MAX_OCCURRENCES, type RecurrenceRule } from "@/lib/recurrence";
+import { parseSchedule } from "@/lib/schedule";
+
+export type SeriesStatus = "requested" | "accepted" | "declined" | "cancelled" | "expired";
+
+export const SKIPPED_REASON = "Skipped this visit";
+
+function assertSeriesParticipant(
+  series: DocumentData,
+  actor: { uid: string; role: BookingActorRole }
+) {
+  if (actor.role === "customer" && series.customerUid !== actor.uid) {
+    throw new Error("You are not allowed to update this series.");
+  }
+  if (actor.role === "provider" && series.providerUid !== actor.uid) {
+    throw new Error("You are not allowed to update this series.");
+  }
+}
+
+export function newSeriesId(): string {
+  return doc(collection(db, "bookingSeries")).id;
+}
+
+// Creates the bookingSeries parent and one booking per date. Every occurrence
+// holds its own slot, so the whole series fails if any date was taken.
+export async function createBookingSeries(
+  request: NewBookingRequest,
+  rule: RecurrenceRule,
+  dates: string[],
+  seriesId: string = newSeriesId()
+): Promise<string> {
+  if (request.mode === "quote") {
+    throw new Error("Request a quote first, then book the repeat visits.");
+  }
+  if (dates.length < 2) {
+    throw new Error("A series needs at least two open visits.");
+  }
+  if (dates.length > MAX_OCCURRENCES) {
+    throw new Error(`A series can have at most ${MAX_OCCURRENCES} visits.`);
+  }
+
+  const seriesRef = doc(db, "bookingSeries", seriesId);
+  const bookingRefs = dates.map(() => doc(collection(db, "bookings")));
+  const summary = describeRecurrence(rule);
+
+  await runTransaction(db, async (transaction) => {
+    const providerSnap = await transaction.get(
+      doc(db, "providerProfiles", request.providerUid)
+    );
+    if (!providerSnap.exists()) {
+      throw new Error("Provider profile not found.");
+    }
+
+    const provider = providerSnap.data();
+    assertCoversLocation(provider, request.location);
+    const schedule = parseSchedule(provider.schedule);
+    const price = priceForService(
+      parsePricing(provider.pricing),
+      request.service,
+      request.estimatedHours
+    );
+    const times = coveredSlotTimes(schedule, request.time, request.estimatedHours);
+    for (const [index, date] of dates.entries()) {
+      if (
+        !isSlotOpen(schedule, [], date, request.time, {
+          minutes: request.estimatedHours * 60,
+        })
+      ) {
+        throw new Error(
+          `${formatDateKey(date)} at ${request.time} is outside the provider's working hours.`
+        );
+      }
+      await assertSlotsAvailable(
+        transaction,
+        request.providerUid,
+        date,
+        times,
+        bookingRefs[index].id
+      );
+    }
+
+    // The provider answers the whole series by the first visit's deadline.
+    const respondBy = respondByTimestamp(
+      bookingStartTimestamp(dates[0], request.time, schedule.timeZone)
+    );
+
+    transaction.set(seriesRef, {
+      ...request,
+      serviceAddress: request.serviceAddress ? withoutPrivateAccess(request.serviceAddress) : null,
+      date: dates[0],
+      timeZone: schedule.timeZone,
+      respondBy,
+      price,
+      rule,
+      summary,
+      occurrenceDates: dates,
+      bookingIds: bookingRefs.map((ref) => ref.id),
+      status: "requested",
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    const history = historyEntry(null, "requested", {
+      uid: request.customerUid,
+      role: "customer",
+    });
+
+    dates.forEach((date, index) => {
+      const held = holdSlots(
+        transaction,
+        request.providerUid,
+        date,
+        times,
+        bookingRefs[index].id
+      );
+      const { serviceAddress, access } = splitServiceAddress(
+        bookingRefs[index].id,
+        request.customerUid,
+        request.serviceAddress
+      );
+      transaction.set(bookingRefs[index], {
+        ...request,
+        serviceAddress,
+        date,
+        timeZone: schedule.timeZone,
+        startAt: bookingStartTimestamp(date, request.time, schedule.timeZone),
+        respondBy,
+        price,
+        ...held,
+        seriesId: seriesRef.id,
+        seriesSummary: summary,
+        occurrenceIndex: index + 1,
+        occurrenceCount: dates.length,
+        status: "requested",
+        statusHistory: [history],
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      if (access) {
+        transaction.set(access.ref, access.data);
+      }
+    });
+  });
+
+  void requestNotification("series", seriesRef.id);
+  return seriesRef.id;
+}
+
+// Accepts or declines every occurrence that is still waiting on the provider.
+export async function respondToSeries(
+  seriesId: string,
+  actor: { uid: string; role: BookingActorRole },
+  to: "accepted" | "declined"
+) {
+  const seriesRef = doc(db, "bookingSeries", seriesId);
+
+  await runTransaction(db, async (transaction) => {
+    const seriesSnap = await transaction.get(seriesRef);
+    if (!seriesSnap.exists()) {
+      throw new Error("Booking series not found.");
+    }
+
+    const series = seriesSnap.data();
+    assertSeriesParticipant(series, actor);
+    if (series.status !== "requested") {
+      throw new Error("This series has already been answered.");
+    }
+
+    const bookingRefs = (Array.isArray(series.bookingIds) ? series.bookingIds : []).map(
+      (id: string) => doc(db, "bookings", id)
+    );
+    const bookingSnaps = await Promise.all(bookingRefs.map((ref) => transaction.get(ref)));
+
+    transaction.update(seriesRef, {
+      status: to,
+      respondedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    bookingSnaps.forEach((bookingSnap, index) => {
+      if (!bookingSnap.exists()) return;
+      const booking = bookingSnap.data();
+      if (toBookingStatus(booking.status) !== "requested") return;
+
+      applyTransition(transaction, bookingRefs[index], booking, {
+        to,
+        actor,
+        reason: `Series ${to}`,
+        fields: { providerUpdatedBy: actor.uid },
+      });
+    });
+  });
+
+  void requestNotification("series", seriesId);
+}
+
+// Cancels every remaining occurrence. Visits already inside the cancellation
+// cutoff stay booked when the customer cancels.
+export async function cancelSeries(
+  seriesId: string,
+  actor: { uid: string; role: BookingActorRole },
+  reason: string
+) {
+  const seriesRef = doc(db, "bookingSeries", seriesId);
+
+  await runTransaction(db, async (transaction) => {
+    const seriesSnap = await transaction.get(seriesRef);
+    if (!seriesSnap.exists()) {
+      throw new Error("Booking series not found.");
+    }
+
+    const series = seriesSnap.data();
+    assertSeriesParticipant(series, actor);
+    if (["cancelled", "declined", "expired"].includes(series.status)) {
+      throw new Error("This series is no longer active.");
+    }
+
+    const bookingRefs = (Array.isArray(series.bookingIds) ? series.bookingIds : []).map(
+      (id: string) => doc(db, "bookings", id)
+    );
+    const bookingSnaps = await Promise.all(bookingRefs.map((ref) => transaction.get(ref)));
+
+    transaction.update(seriesRef, {
+      status: "cancelled",
+      cancelledBy: actor.role,
+      cancellationReason: reason,
+      updatedAt: serverTimestamp(),
+    });
+
+    bookingSnaps.forEach((bookingSnap, index) => {
+      if (!bookingSnap.exists()) return;
+      const booking = bookingSnap.data();
+      const status = toBookingStatus(booking.status);
+      if (!SLOT_HOLDING_STATUSES.includes(status)) return;
+      if (actor.role === "customer" && isPastCancellationCutoff(booking)) return;
+
+      applyTransition(transaction, bookingRefs[index], booking, {
+        to: actor.role === "provider" && status !== "accepted" ? "declined" : "cancelled",
+        actor,
+        reason,
+        fields: { cancelledBy: actor.role, cancellationReason: reason },
+      });
+    });
+  });
+
+  void requestNotification("series", seriesId);
+}
+
+export async function skipOccurrence(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole }
+) {
+  await transitionBooking({
+    bookingId,
+    to: "cancelled",
+    actor,
+    reason: SKIPPED_REASON,
+    fields: { cancelledBy: actor.role, cancellationReason: SKIPPED_REASON, skipped: true },
+    guard: (booking) => {
+      if (!booking.seriesId) {
+        throw new Error("Only visits in a recurring series can be skipped.");
+      }
+      if (actor.role === "customer") {
+        assertBeforeCutoff(booking);
+      }
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import type { Timestamp } from "firebase/firestore";
+
+export type BookingStatus =
+  | "requested"
+  | "quote_requested"
+  | "quoted"
+  | "reschedule_proposed"
+  | "accepted"
+  | "declined"
+  | "completed"
+  | "cancelled"
+  | "expired";
+
+// "system" is the scheduled job that expires unanswered requests.
+export type BookingActorRole = "customer" | "provider" | "admin" | "system";
+
+export type StatusHistoryEntry = {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  actorUid: string;
+  actorRole: BookingActorRole;
+  at: Timestamp;
+  reason?: string;
+};
+
+export const bookingStatusLabels: Record<BookingStatus, string> = {
+  requested: "Requested",
+  quote_requested: "Quote requested",
+  quoted: "Quote sent",
+  reschedule_proposed: "New time proposed",
+  accepted: "Accepted",
+  declined: "Declined",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+// Statuses that keep the provider's slot reserved.
+export const SLOT_HOLDING_STATUSES: BookingStatus[] = [
+  "requested",
+  "quote_requested",
+  "quoted",
+  "reschedule_proposed",
+  "accepted",
+];
+
+const allowedTransitions: Record<
+  BookingActorRole,
+  Partial<Record<BookingStatus, BookingStatus[]>>
+> = {
+  // requested -> requested is a customer reschedule of a pending request.
+  // reschedule_proposed -> requested rejects the provider's proposed times.
+  // quoted -> accepted is the customer accepting a provider's quote.
+  customer: {
+    requested: ["requested", "cancelled"],
+    quote_requested: ["cancelled"],
+    quoted: ["accepted", "cancelled"],
+    reschedule_proposed: ["accepted", "requested", "cancelled"],
+    accepted: ["requested", "cancelled"],
+  },
+  // quoted -> quoted is a provider revising a quote they already sent.
+  provider: {
+    requested: ["accepted", "declined", "reschedule_proposed"],
+    quote_requested: ["quoted", "declined"],
+    quoted: ["quoted", "declined"],
+    reschedule_proposed: ["declined"],
+    accepted: ["completed", "cancelled"],
+  },
+  admin: {
+    requested: ["accepted", "declined", "cancelled"],
+    quote_requested: ["declined", "cancelled"],
+    quoted: ["accepted", "declined", "cancelled"],
+    reschedule_proposed: ["accepted", "declined", "cancelled"],
+    accepted: ["completed", "cancelled"],
+    declined: ["requested"],
+    cancelled: ["requested"],
+  },
+  system: {
+    requested: ["expired"],
+    quote_requested: ["expired"],
+  },
+};
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(bookingStatusLabels, value)
+  );
+}
+
+export function toBookingStatus(value: unknown): BookingStatus {
+  return isBookingStatus(value) ? value : "requested";
+}
+
+export function nextStatuses(role: BookingActorRole, from: BookingStatus): BookingStatus[] {
+  return allowedTransitions[role][from] || [];
+}
+
+export function assertTransition(
+  role: BookingActorRole,
+  from: BookingStatus,
+  to: BookingStatus
+) {
+  if (!nextStatuses(role, from).includes(to)) {
+    throw new Error(
+      `A ${role} can't move a booking from ${bookingStatusLabels[from].toLowerCase()} to ${bookingStatusLabels[to].toLowerCase()}.`
+    );
+  }
+}
@@ -0,0 +1,716 @@
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type Transaction,
+} from "firebase/firestore";
+import {
+  parsePrivateAccess,
+  parseSavedAddress,
+  privateAccessOf,
+  withoutPrivateAccess,
+  type PrivateAccess,
+  type SavedAddress,
+} from "@/lib/addresses";
+import { coveredSlotTimes, isSlotOpen, type BookedSlot } from "@/lib/availability";
+import {
+  assertTransition,
+  SLOT_HOLDING_STATUSES,
+  toBookingStatus,
+  type BookingActorRole,
+  type BookingStatus,
+  type StatusHistoryEntry,
+} from "@/lib/bookingStatus";
+import { db } from "@/lib/firebase";
+import {
+  coverageFor,
+  parseAddress,
+  parseServiceArea,
+  type StructuredAddress,
+} from "@/lib/geo";
+import { requestNotification } from "@/lib/notifications";
+import { parsePricing, priceForService } from "@/lib/pricing";
+import { responseDeadline } from "@/lib/requestExpiry";
+import { parseSchedule } from "@/lib/schedule";
+import {
+  bookingStartInstant,
+  DEFAULT_TIME_ZONE,
+  zonedDateTimeToUtc,
+  type ZonedBooking,
+} from "@/lib/timezones";
+import type { PrivateFile } from "@/lib/uploads";
+
+export const SLOT_TAKEN_MESSAGE =
+  "That slot was just taken by another customer. Please pick a different time.";
+
+// Quote requests skip up-front pricing; the provider replies with a quote.
+export type BookingMode = "booking" | "quote";
+
+export type NewBookingRequest = {
+  customerUid: string;
+  customerName: string;
+  customerEmail: string;
+  providerUid: string;
+  providerName: string;
+  service: string;
+  date: string;
+  time: string;
+  address: string;
+  notes: string;
+  estimatedHours: number;
+  serviceAddress?: SavedAddress | null;
+  location?: StructuredAddress | null;
+  mode?: BookingMode;
+  attachments?: PrivateFile[];
+};
+
+function readCutoffHours(): number {
+  const value = Number(process.env.NEXT_PUBLIC_CANCELLATION_CUTOFF_HOURS);
+  return Number.isFinite(value) && value >= 0 ? value : 24;
+}
+
+// Customers can't cancel or reschedule closer than this to the start time.
+export const CANCELLATION_CUTOFF_HOURS = readCutoffHours();
+
+export function isPastCancellationCutoff(
+  booking: ZonedBooking,
+  now: Date = new Date()
+): boolean {
+  const startsAt = bookingStartInstant(booking);
+  if (!startsAt) return false;
+  return startsAt.getTime() - now.getTime() < CANCELLATION_CUTOFF_HOURS * 60 * 60 * 1000;
+}
+
+export function assertBeforeCutoff(booking: DocumentData) {
+  if (isPastCancellationCutoff(booking)) {
+    throw new Error(
+      `Changes are only possible up to ${CANCELLATION_CUTOFF_HOURS} hours before the start time.`
+    );
+  }
+}
+
+export function historyEntry(
+  from: BookingStatus | null,
+  to: BookingStatus,
+  actor: { uid: string; role: BookingActorRole },
+  reason?: string
+): StatusHistoryEntry {
+  return {
+    from,
+    to,
+    actorUid: actor.uid,
+    actorRole: actor.role,
+    at: Timestamp.now(),
+    ...(reason ? { reason } : {}),
+  };
+}
+
+function assertParticipant(
+  booking: DocumentData,
+  actor: { uid: string; role: BookingActorRole }
+) {
+  if (actor.role === "customer" && booking.customerUid !== actor.uid) {
+    throw new Error("You are not allowed to update this booking.");
+  }
+  if (actor.role === "provider" && booking.providerUid !== actor.uid) {
+    throw new Error("You are not allowed to update this booking.");
+  }
+}
+
+export function slotId(providerUid: string, date: string, time: string): string {
+  return `${providerUid}_${date}_${time}`;
+}
+
+// Firestore transactions need every read before the first write, so checking
+// slots and holding them are split. Stale slot documents whose booking is no
+// longer active are treated as free.
+export async function assertSlotsAvailable(
+  transaction: Transaction,
+  providerUid: string,
+  date: string,
+  times: string[],
+  bookingId: string
+) {
+  for (const time of times) {
+    const slotSnap = await transaction.get(
+      doc(db, "providerSlots", slotId(providerUid, date, time))
+    );
+    if (!slotSnap.exists() || slotSnap.data().bookingId === bookingId) continue;
+
+    const holderSnap = await transaction.get(
+      doc(db, "bookings", String(slotSnap.data().bookingId))
+    );
+    if (
+      holderSnap.exists() &&
+      SLOT_HOLDING_STATUSES.includes(toBookingStatus(holderSnap.data().status))
+    ) {
+      throw new Error(SLOT_TAKEN_MESSAGE);
+    }
+  }
+}
+
+// The booking flow only lists providers who cover the address; this catches a
+// stale list or a provider who changed their area mid-booking.
+export function assertCoversLocation(
+  provider: DocumentData,
+  location: StructuredAddress | null | undefined
+) {
+  if (!location) return;
+  if (!coverageFor(parseServiceArea(provider.serviceArea), location).covered) {
+    throw new Error(
+      `${provider.displayName || "This provider"} doesn't cover that address. Please choose another provider.`
+    );
+  }
+}
+
+// Holds every slot in `times` and returns the fields that record them on the
+// booking: slotId for the start, slotIds for everything the job runs into.
+export function holdSlots(
+  transaction: Transaction,
+  providerUid: string,
+  date: string,
+  times: string[],
+  bookingId: string
+): { slotId: string; slotIds: string[] } {
+  times.forEach((time) => {
+    transaction.set(doc(db, "providerSlots", slotId(providerUid, date, time)), {
+      providerUid,
+      date,
+      time,
+      bookingId,
+      createdAt: serverTimestamp(),
+    });
+  });
+  const slotIds = times.map((time) => slotId(providerUid, date, time));
+  return { slotId: slotIds[0], slotIds };
+}
+
+// Bookings made before slotIds existed only hold their start slot.
+export function heldSlotIds(booking: {
+  providerUid?: string;
+  date?: string;
+  time?: string;
+  slotIds?: unknown;
+}): string[] {
+  if (Array.isArray(booking.slotIds)) {
+    return booking.slotIds.filter((item): item is string => typeof item === "string");
+  }
+  if (!booking.providerUid || !booking.date || !booking.time) return [];
+  return [slotId(booking.providerUid, booking.date, booking.time)];
+}
+
+// `keep` skips slots the same transaction is about to hold again.
+export function releaseSlots(
+  transaction: Transaction,
+  booking: DocumentData,
+  keep: string[] = []
+) {
+  heldSlotIds(booking)
+    .filter((id) => !keep.includes(id))
+    .forEach((id) => transaction.delete(doc(db, "providerSlots", id)));
+}
+
+// The canonical instant of a booking. date and time stay alongside it as the
+// wall-clock values at the service location, which slots are keyed on.
+export function bookingStartTimestamp(date: string, time: string, timeZone: string): Timestamp {
+  return Timestamp.fromDate(zonedDateTimeToUtc(date, time, timeZone));
+}
+
+// Restarts the provider's response clock whenever a booking (re)enters
+// requested.
+export function respondByTimestamp(startAt: Timestamp): Timestamp {
+  return Timestamp.fromDate(responseDeadline(new Date(), startAt.toDate()));
+}
+
+// Lets callers upload files under a booking's id before the booking exists.
+export function newBookingId(): string {
+  return doc(collection(db, "bookings")).id;
+}
+
+// Gate codes and access notes live in bookings/{id}/private/access, which
+// the provider can only read once they have accepted the booking.
+export function bookingAccessRef(bookingId: string): DocumentReference {
+  return doc(db, "bookings", bookingId, "private", "access");
+}
+
+// The booking's copy of the address and, when there is anything to hide, the
+// private document to write next to it.
+export function splitServiceAddress(
+  bookingId: string,
+  customerUid: string,
+  address: SavedAddress | null | undefined
+): {
+  serviceAddress: SavedAddress | null;
+  access: { ref: DocumentReference; data: PrivateAccess & { customerUid: string } } | null;
+} {
+  if (!address) return { serviceAddress: null, access: null };
+  const access = privateAccessOf(address);
+  return {
+    serviceAddress: withoutPrivateAccess(address),
+    access:
+      access.accessInstructions || access.gateCode
+        ? { ref: bookingAccessRef(bookingId), data: { ...access, customerUid } }
+        : null,
+  };
+}
+
+// Resolves to null when there are no details or the reader isn't allowed
+// to see them yet.
+export async function loadBookingAccess(bookingId: string): Promise<PrivateAccess | null> {
+  try {
+    const snapshot = await getDoc(bookingAccessRef(bookingId));
+    return snapshot.exists() ? parsePrivateAccess(snapshot.data()) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads the provider and their slots, then writes the booking and holds the
+// slots, all inside the caller's transaction. The time is checked against the
+// provider's own hours and lead time, not just what the client offered.
+async function writeBookingRequest(
+  transaction: Transaction,
+  bookingRef: DocumentReference,
+  request: NewBookingRequest
+) {
+  const mode = request.mode || "booking";
+  const status: BookingStatus = mode === "quote" ? "quote_requested" : "requested";
+
+  const providerSnap = await transaction.get(doc(db, "providerProfiles", request.providerUid));
+  if (!providerSnap.exists()) {
+    throw new Error("Provider profile not found.");
+  }
+  const provider = providerSnap.data();
+  assertCoversLocation(provider, request.location);
+
+  const schedule = parseSchedule(provider.schedule);
+  if (
+    !isSlotOpen(schedule, [], request.date, request.time, {
+      minutes: request.estimatedHours * 60,
+    })
+  ) {
+    throw new Error(
+      `${provider.displayName || "This provider"} isn't available at that time. Please pick a different slot.`
+    );
+  }
+
+  const times = coveredSlotTimes(schedule, request.time, request.estimatedHours);
+  await assertSlotsAvailable(transaction, request.providerUid, request.date, times, bookingRef.id);
+
+  const history = historyEntry(null, status, {
+    uid: request.customerUid,
+    role: "customer",
+  });
+
+  const { timeZone } = schedule;
+  const startAt = bookingStartTimestamp(request.date, request.time, timeZone);
+
+  const held = holdSlots(transaction, request.providerUid, request.date, times, bookingRef.id);
+  const { serviceAddress, access } = splitServiceAddress(
+    bookingRef.id,
+    request.customerUid,
+    request.serviceAddress
+  );
+  transaction.set(bookingRef, {
+    ...request,
+    serviceAddress,
+    timeZone,
+    startAt,
+    respondBy: respondByTimestamp(startAt),
+    mode,
+    attachments: request.attachments || [],
+    // Priced from the provider's saved rates, not whatever the client showed.
+    price:
+      mode === "quote"
+        ? null
+        : priceForService(parsePricing(provider.pricing), request.service, request.estimatedHours),
+    ...held,
+    status,
+    statusHistory: [history],
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  if (access) {
+    transaction.set(access.ref, access.data);
+  }
+}
+
+export async function createBookingRequest(
+  request: NewBookingRequest,
+  bookingId: string = newBookingId()
+): Promise<string> {
+  const bookingRef = doc(db, "bookings", bookingId);
+
+  await runTransaction(db, (transaction) =>
+    writeBookingRequest(transaction, bookingRef, request)
+  );
+
+  void requestNotification("booking", bookingRef.id);
+  return bookingRef.id;
+}
+
+const SLOT_RELEASING_STATUSES: BookingStatus[] = ["declined", "cancelled"];
+
+export type BookingTransition = {
+  bookingId: string;
+  to: BookingStatus;
+  actor: { uid: string; role: BookingActorRole };
+  reason?: string;
+  // A function receives the booking as read inside the transaction.
+  fields?: Record<string, unknown> | ((booking: DocumentData) => Record<string, unknown>);
+  guard?: (booking: DocumentData) => void;
+};
+
+// Writes a status change inside a caller's transaction once the booking has
+// been read, for flows that move several bookings at once. Reopening a
+// booking needs its slots back, which only transitionBooking does.
+export function applyTransition(
+  transaction: Transaction,
+  bookingRef: DocumentReference,
+  booking: DocumentData,
+  { to, actor, reason, fields = {}, guard }: Omit<BookingTransition, "bookingId">
+) {
+  assertParticipant(booking, actor);
+
+  const from = toBookingStatus(booking.status);
+  assertTransition(actor.role, from, to);
+  guard?.(booking);
+
+  transaction.update(bookingRef, {
+    ...(typeof fields === "function" ? fields(booking) : fields),
+    status: to,
+    statusHistory: arrayUnion(historyEntry(from, to, actor, reason)),
+    updatedAt: serverTimestamp(),
+  });
+
+  if (SLOT_RELEASING_STATUSES.includes(to)) {
+    releaseSlots(transaction, booking);
+  }
+}
+
+// An admin reopening a declined or cancelled booking has to win its slots
+// back, since they were released and may have been booked since.
+function reopensBooking(booking: DocumentData, to: BookingStatus): boolean {
+  return (
+    !SLOT_HOLDING_STATUSES.includes(toBookingStatus(booking.status)) &&
+    SLOT_HOLDING_STATUSES.includes(to)
+  );
+}
+
+async function assertReopenable(
+  transaction: Transaction,
+  bookingId: string,
+  booking: DocumentData
+): Promise<string[]> {
+  if (!booking.providerUid || !booking.date || !booking.time) {
+    throw new Error("This booking has no provider time to reopen.");
+  }
+
+  const providerSnap = await transaction.get(
+    doc(db, "providerProfiles", String(booking.providerUid))
+  );
+  const times = coveredSlotTimes(
+    parseSchedule(providerSnap.data()?.schedule),
+    String(booking.time),
+    Number(booking.estimatedHours) || 0
+  );
+  await assertSlotsAvailable(
+    transaction,
+    String(booking.providerUid),
+    String(booking.date),
+    times,
+    bookingId
+  );
+  return times;
+}
+
+// Every status change goes through here so the role rules are enforced and
+// each change leaves a statusHistory entry.
+export async function transitionBooking({ bookingId, ...change }: BookingTransition) {
+  const bookingRef = doc(db, "bookings", bookingId);
+
+  await runTransaction(db, async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists()) {
+      throw new Error("Booking not found.");
+    }
+
+    const booking = bookingSnap.data();
+    const reopening = reopensBooking(booking, change.to);
+    const times = reopening ? await assertReopenable(transaction, bookingId, booking) : [];
+
+    applyTransition(transaction, bookingRef, booking, change);
+
+    if (reopening) {
+      transaction.update(bookingRef, {
+        ...holdSlots(transaction, booking.providerUid, booking.date, times, bookingId),
+        ...(change.to === "requested" && booking.startAt
+          ? { respondBy: respondByTimestamp(booking.startAt) }
+          : {}),
+      });
+    }
+  });
+
+  void requestNotification("booking", bookingId);
+}
+
+export async function cancelBooking(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole },
+  reason: string
+) {
+  await transitionBooking({
+    bookingId,
+    to: "cancelled",
+    actor,
+    reason,
+    fields: { cancelledBy: actor.role, cancellationReason: reason },
+    guard: actor.role === "customer" ? assertBeforeCutoff : undefined,
+  });
+}
+
+// Requests the provider never answered (or turned down) can be passed on.
+export const RESENDABLE_STATUSES: BookingStatus[] = ["expired", "declined"];
+
+// Copies an unanswered request to another provider at the same time. Photos
+// stay with the original booking, whose provider was the only one allowed to
+// see them. The check that it wasn't already resent and the new booking share
+// one transaction, so a double click can't send it twice.
+export async function sendToAnotherProvider(
+  bookingId: string,
+  customerUid: string,
+  provider: { uid: string; name: string }
+): Promise<string> {
+  const bookingRef = doc(db, "bookings", bookingId);
+  const nextBookingRef = doc(db, "bookings", newBookingId());
+
+  await runTransaction(db, async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists()) {
+      throw new Error("Booking not found.");
+    }
+
+    const booking = bookingSnap.data();
+    if (booking.customerUid !== customerUid) {
+      throw new Error("You are not allowed to update this booking.");
+    }
+    if (!RESENDABLE_STATUSES.includes(toBookingStatus(booking.status))) {
+      throw new Error("Only expired or declined requests can be sent to another provider.");
+    }
+    if (booking.resentToBookingId) {
+      throw new Error("This request was already sent to another provider.");
+    }
+    if (booking.providerUid === provider.uid) {
+      throw new Error("Choose a different provider.");
+    }
+
+    // The access details stay private, so they are copied from their own
+    // document rather than the booking.
+    const accessSnap = await transaction.get(bookingAccessRef(bookingId));
+    const savedAddress = parseSavedAddress(booking.serviceAddress);
+
+    await writeBookingRequest(transaction, nextBookingRef, {
+      customerUid,
+      customerName: String(booking.customerName || "Customer"),
+      customerEmail: String(booking.customerEmail || ""),
+      providerUid: provider.uid,
+      providerName: provider.name,
+      service: String(booking.service || ""),
+      date: String(booking.date || ""),
+      time: String(booking.time || ""),
+      address: String(booking.address || ""),
+      serviceAddress:
+        savedAddress && accessSnap.exists()
+          ? { ...savedAddress, ...parsePrivateAccess(accessSnap.data()) }
+          : savedAddress,
+      location: parseAddress(booking.location),
+      notes: String(booking.notes || ""),
+      estimatedHours: Number(booking.estimatedHours) || 2,
+      mode: booking.mode === "quote" ? "quote" : "booking",
+    });
+
+    transaction.update(bookingRef, {
+      resentToBookingId: nextBookingRef.id,
+      updatedAt: serverTimestamp(),
+    });
+  });
+
+  void requestNotification("booking", nextBookingRef.id);
+  return nextBookingRef.id;
+}
+
+type SlotMove = {
+  bookingId: string;
+  to: BookingStatus;
+  actor: { uid: string; role: BookingActorRole };
+  date: string;
+  time: string;
+  guard?: (booking: DocumentData) => void;
+};
+
+// Swaps the booking's held slots for new ones in the same transaction as the
+// status change, so a slot is never held twice or dropped halfway.
+async function moveBookingSlot({ bookingId, to, actor, date, time, guard }: SlotMove) {
+  const bookingRef = doc(db, "bookings", bookingId);
+
+  await runTransaction(db, async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists()) {
+      throw new Error("Booking not found.");
+    }
+
+    const booking = bookingSnap.data();
+    assertParticipant(booking, actor);
+
+    const from = toBookingStatus(booking.status);
+    assertTransition(actor.role, from, to);
+    guard?.(booking);
+
+    const providerUid = String(booking.providerUid);
+    const providerSnap = await transaction.get(doc(db, "providerProfiles", providerUid));
+    if (!providerSnap.exists()) {
+      throw new Error("Provider profile not found.");
+    }
+    const provider = providerSnap.data();
+
+    // The new time has to fit the provider's hours, blocked dates and lead
+    // time, just like a new request.
+    const schedule = parseSchedule(provider.schedule);
+    const estimatedHours = Number(booking.estimatedHours) || 0;
+    if (!isSlotOpen(schedule, [], date, time, { minutes: estimatedHours * 60 })) {
+      throw new Error(
+        `${provider.displayName || "This provider"} isn't available at that time. Please pick a different slot.`
+      );
+    }
+
+    const times = coveredSlotTimes(schedule, time, estimatedHours);
+    await assertSlotsAvailable(transaction, providerUid, date, times, bookingId);
+
+    const startAt = bookingStartTimestamp(date, time, booking.timeZone || DEFAULT_TIME_ZONE);
+
+    const keep = times.map((item) => slotId(providerUid, date, item));
+    releaseSlots(transaction, booking, keep);
+    const held = holdSlots(transaction, providerUid, date, times, bookingId);
+    transaction.update(bookingRef, {
+      date,
+      time,
+      startAt,
+      ...(to === "requested" ? { respondBy: respondByTimestamp(startAt) } : {}),
+      ...held,
+      previousDate: booking.date || null,
+      previousTime: booking.time || null,
+      rescheduledBy: actor.role,
+      rescheduledAt: serverTimestamp(),
+      proposedTimes: [],
+      status: to,
+      statusHistory: arrayUnion(
+        historyEntry(from, to, actor, `Rescheduled to ${date} ${time}`)
+      ),
+      updatedAt: serverTimestamp(),
+    });
+  });
+
+  void requestNotification("booking", bookingId);
+}
+
+// Moves a customer's booking to a new slot and sends it back to the provider
+// for confirmation.
+export async function rescheduleBooking(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole },
+  date: string,
+  time: string
+) {
+  await moveBookingSlot({
+    bookingId,
+    to: "requested",
+    actor,
+    date,
+    time,
+    guard: actor.role === "customer" ? assertBeforeCutoff : undefined,
+  });
+}
+
+export const MAX_PROPOSED_TIMES = 3;
+
+export async function proposeReschedule(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole },
+  proposedTimes: BookedSlot[],
+  note: string
+) {
+  const unique = proposedTimes.filter(
+    (slot, index) =>
+      proposedTimes.findIndex((item) => item.date === slot.date && item.time === slot.time) ===
+      index
+  );
+  if (unique.length === 0) {
+    throw new Error("Propose at least one alternative time.");
+  }
+  if (unique.length > MAX_PROPOSED_TIMES) {
+    throw new Error(`Propose at most ${MAX_PROPOSED_TIMES} alternative times.`);
+  }
+
+  await transitionBooking({
+    bookingId,
+    to: "reschedule_proposed",
+    actor,
+    reason: note || undefined,
+    fields: {
+      proposedTimes: unique,
+      proposalNote: note,
+      proposedAt: serverTimestamp(),
+    },
+    guard: (booking) => {
+      if (unique.some((slot) => slot.date === booking.date && slot.time === booking.time)) {
+        throw new Error("Proposed times must differ from the requested time.");
+      }
+    },
+  });
+}
+
+export async function acceptProposedTime(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole },
+  date: string,
+  time: string
+) {
+  await moveBookingSlot({
+    bookingId,
+    to: "accepted",
+    actor,
+    date,
+    time,
+    guard: (booking) => {
+      const proposed: BookedSlot[] = Array.isArray(booking.proposedTimes)
+        ? booking.proposedTimes
+        : [];
+      if (!proposed.some((slot) => slot.date === date && slot.time === time)) {
+        throw new Error("That time is no longer part of the provider's proposal.");
+      }
+    },
+  });
+}
+
+// Sends the booking back to the provider at the originally requested time.
+export async function rejectProposedTimes(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole }
+) {
+  await transitionBooking({
+    bookingId,
+    to: "requested",
+    actor,
+    reason: "Proposed times rejected",
+    fields: (booking) => ({
+      proposedTimes: [],
+      ...(booking.startAt ? { respondBy: respondByTimestamp(booking.startAt) } : {}),
+    }),
+  });
+}
@@ -0,0 +1,218 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore";
+import { coveredSlotTimes, isSlotOpen, type BookedSlot } from "@/lib/availability";
+import {
+  assertSlotsAvailable,
+  bookingStartTimestamp,
+  historyEntry,
+  holdSlots,
+  newBookingId,
+  respondByTimestamp,
+  splitServiceAddress,
+  type NewBookingRequest,
+} from "@/lib/bookings";
+import { toBookingStatus } from "@/lib/bookingStatus";
+import { db } from "@/lib/firebase";
+import { requestNotification } from "@/lib/notifications";
+import { parsePricing, priceForService } from "@/lib/pricing";
+import type { ProviderProfile } from "@/lib/providers";
+import { parseSchedule } from "@/lib/schedule";
+
+// A broadcast request has no provider until one claims it. It is offered to
+// every provider in candidateProviderUids; the first to accept takes the slot
+// and the offer disappears for everyone else.
+export type NewBroadcastRequest = Omit<
+  NewBookingRequest,
+  "providerUid" | "providerName" | "mode"
+>;
+
+export const ALL_PASSED_REASON = "None of the available providers could take this booking";
+
+// Providers who could take a job of this length at this exact time.
+export function openCandidates(
+  providers: ProviderProfile[],
+  bookedByProvider: Record<string, BookedSlot[]>,
+  date: string,
+  time: string,
+  minutes?: number
+): ProviderProfile[] {
+  return providers.filter((provider) =>
+    isSlotOpen(provider.schedule, bookedByProvider[provider.id] || [], date, time, { minutes })
+  );
+}
+
+export function isOpenOffer(booking: DocumentData, providerUid: string): boolean {
+  return (
+    Boolean(booking.broadcast) &&
+    !booking.providerUid &&
+    toBookingStatus(booking.status) === "requested" &&
+    Array.isArray(booking.candidateProviderUids) &&
+    booking.candidateProviderUids.includes(providerUid)
+  );
+}
+
+// No slot is held until a provider claims the request, since nobody knows
+// yet whose calendar it belongs on. The start instant uses the first
+// candidate's time zone and is recalculated on claim.
+export async function createBroadcastRequest(
+  request: NewBroadcastRequest,
+  candidates: ProviderProfile[],
+  bookingId: string = newBookingId()
+): Promise<string> {
+  if (candidates.length === 0) {
+    throw new Error("No provider is free at that time. Please pick a different slot.");
+  }
+
+  const bookingRef = doc(db, "bookings", bookingId);
+  const { timeZone } = candidates[0].schedule;
+  const startAt = bookingStartTimestamp(request.date, request.time, timeZone);
+  const history = historyEntry(null, "requested", {
+    uid: request.customerUid,
+    role: "customer",
+  });
+
+  const { serviceAddress, access } = splitServiceAddress(
+    bookingRef.id,
+    request.customerUid,
+    request.serviceAddress
+  );
+  const batch = writeBatch(db);
+  batch.set(bookingRef, {
+    ...request,
+    serviceAddress,
+    providerUid: "",
+    providerName: "",
+    broadcast: true,
+    candidateProviderUids: candidates.map((provider) => provider.id),
+    passedProviderUids: [],
+    timeZone,
+    startAt,
+    respondBy: respondByTimestamp(startAt),
+    mode: "booking",
+    attachments: request.attachments || [],
+    // Priced from the rates of whoever claims it.
+    price: null,
+    slotId: null,
+    status: "requested",
+    statusHistory: [history],
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  if (access) {
+    batch.set(access.ref, access.data);
+  }
+  await batch.commit();
+
+  void requestNotification("booking", bookingRef.id);
+  return bookingRef.id;
+}
+
+export async function claimBroadcastRequest(
+  bookingId: string,
+  provider: { uid: string; name: string }
+) {
+  const bookingRef = doc(db, "bookings", bookingId);
+
+  await runTransaction(db, async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists()) {
+      throw new Error("Booking not found.");
+    }
+
+    const booking = bookingSnap.data();
+    if (booking.providerUid) {
+      throw new Error("Another provider already accepted this request.");
+    }
+    if (!isOpenOffer(booking, provider.uid)) {
+      throw new Error("This request is no longer open.");
+    }
+
+    const providerSnap = await transaction.get(doc(db, "providerProfiles", provider.uid));
+    if (!providerSnap.exists()) {
+      throw new Error("Provider profile not found.");
+    }
+
+    const date = String(booking.date);
+    const time = String(booking.time);
+    const profile = providerSnap.data();
+    const schedule = parseSchedule(profile.schedule);
+    const times = coveredSlotTimes(schedule, time, Number(booking.estimatedHours) || 0);
+    await assertSlotsAvailable(transaction, provider.uid, date, times, bookingId);
+
+    const { timeZone } = schedule;
+    const held = holdSlots(transaction, provider.uid, date, times, bookingId);
+    transaction.update(bookingRef, {
+      providerUid: provider.uid,
+      providerName: provider.name,
+      candidateProviderUids: [],
+      claimedAt: serverTimestamp(),
+      timeZone,
+      startAt: bookingStartTimestamp(date, time, timeZone),
+      price: priceForService(
+        parsePricing(profile.pricing),
+        String(booking.service || ""),
+        Number(booking.estimatedHours) || 0
+      ),
+      ...held,
+      status: "accepted",
+      statusHistory: arrayUnion(
+        historyEntry("requested", "accepted", { uid: provider.uid, role: "provider" })
+      ),
+      updatedAt: serverTimestamp(),
+    });
+  });
+
+  void requestNotification("booking", bookingId);
+}
+
+// Withdraws the offer for one provider. Once everyone has passed the request
+// is declined so the customer isn't left waiting.
+export async function passBroadcastRequest(bookingId: string, providerUid: string) {
+  const bookingRef = doc(db, "bookings", bookingId);
+  let declined = false;
+
+  await runTransaction(db, async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists()) {
+      throw new Error("Booking not found.");
+    }
+
+    const booking = bookingSnap.data();
+    if (!isOpenOffer(booking, providerUid)) return;
+
+    const remaining = (booking.candidateProviderUids as string[]).filter(
+      (uid) => uid !== providerUid
+    );
+    declined = remaining.length === 0;
+
+    transaction.update(bookingRef, {
+      candidateProviderUids: arrayRemove(providerUid),
+      passedProviderUids: arrayUnion(providerUid),
+      ...(declined
+        ? {
+            status: "declined",
+            statusHistory: arrayUnion(
+              historyEntry(
+                "requested",
+                "declined",
+                { uid: providerUid, role: "provider" },
+                ALL_PASSED_REASON
+              )
+            ),
+          }
+        : {}),
+      updatedAt: serverTimestamp(),
+    });
+  });
+
+  if (declined) {
+    void requestNotification("booking", bookingId);
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { buildCalendar, bookingToIcsEvent, type IcsBooking } from "@/lib/ics";
+
+// The feed token is the document id in calendarFeeds. Anyone holding the URL
+// can read the calendar, so resetting replaces the token outright.
+export async function loadCalendarFeedToken(uid: string): Promise<string | null> {
+  const snapshot = await getDocs(query(collection(db, "calendarFeeds"), where("uid", "==", uid)));
+  return snapshot.docs[0]?.id || null;
+}
+
+export async function resetCalendarFeedToken(uid: string): Promise<string> {
+  const existing = await getDocs(query(collection(db, "calendarFeeds"), where("uid", "==", uid)));
+  await Promise.all(existing.docs.map((docSnap) => deleteDoc(docSnap.ref)));
+
+  const feedRef = doc(collection(db, "calendarFeeds"));
+  await setDoc(feedRef, { uid, createdAt: serverTimestamp() });
+  return feedRef.id;
+}
+
+export function calendarFeedUrl(token: string): string {
+  return `${window.location.origin}/api/calendar/${token}.ics`;
+}
+
+export function downloadBookingIcs(booking: IcsBooking, viewerRole: "customer" | "provider") {
+  const event = bookingToIcsEvent(booking, viewerRole, window.location.origin);
+  if (!event) {
+    throw new Error("This booking has no date and time yet.");
+  }
+
+  const blob = new Blob([buildCalendar(event.summary, [event])], {
+    type: "text/calendar;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  const slug = (booking.service || "booking").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  link.download = `${slug}-${booking.date}.ics`;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,174 @@
+// Service areas and addresses. Used by the booking flow in the browser and the
+// geocoding route on the server, so it stays free of Firebase imports.
+
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+// What customers pick in the address search. Coordinates are null when the
+// address was entered by hand, so matching falls back to suburb or postcode.
+export type StructuredAddress = {
+  label: string;
+  suburb: string;
+  postcode: string;
+  lat: number | null;
+  lng: number | null;
+};
+
+// A provider covers an address if it is within radiusKm of the centre, or its
+// suburb or postcode is one of the listed places.
+export type ServiceArea = {
+  centre: (GeoPoint & { label: string }) | null;
+  radiusKm: number;
+  places: string[];
+};
+
+// Providers who haven't set an area yet are not restricted; areaSet lets the
+// booking flow say so instead of implying they cover the address.
+export type Coverage = {
+  covered: boolean;
+  areaSet: boolean;
+  distanceKm: number | null;
+};
+
+export const RADIUS_OPTIONS_KM = [5, 10, 15, 25, 50, 100];
+
+export const MAX_SERVICE_AREA_PLACES = 50;
+
+export const emptyServiceArea: ServiceArea = {
+  centre: null,
+  radiusKm: 15,
+  places: [],
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance, which is close enough for "do you travel this far".
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function formatDistance(km: number): string {
+  return km < 1 ? "under 1 km away" : `${km < 10 ? km.toFixed(1) : Math.round(km)} km away`;
+}
+
+// Suburbs and postcodes are compared case- and space-insensitively.
+export function normalizePlace(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function parsePlaces(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(/[,\n;]/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+function toCoordinate(value: unknown, limit: number): number | null {
+  const number = Number(value);
+  return value !== null && value !== "" && Number.isFinite(number) && Math.abs(number) <= limit
+    ? number
+    : null;
+}
+
+function toPoint(value: unknown): GeoPoint | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  const lat = toCoordinate(data.lat, 90);
+  const lng = toCoordinate(data.lng, 180);
+  return lat === null || lng === null ? null : { lat, lng };
+}
+
+export function parseServiceArea(value: unknown): ServiceArea {
+  if (!value || typeof value !== "object") return emptyServiceArea;
+  const data = value as Record<string, unknown>;
+  const centre = toPoint(data.centre);
+  const radiusKm = Number(data.radiusKm);
+
+  return {
+    centre: centre
+      ? { ...centre, label: String((data.centre as Record<string, unknown>).label || "") }
+      : null,
+    radiusKm: Number.isFinite(radiusKm) && radiusKm > 0 ? radiusKm : emptyServiceArea.radiusKm,
+    places: Array.isArray(data.places)
+      ? data.places.filter((item): item is string => typeof item === "string")
+      : [],
+  };
+}
+
+export function hasServiceArea(area: ServiceArea): boolean {
+  return Boolean(area.centre) || area.places.length > 0;
+}
+
+export function validateServiceArea(area: ServiceArea): string | null {
+  if (!hasServiceArea(area)) {
+    return "Set a centre point or list the suburbs and postcodes you cover.";
+  }
+  if (area.centre && !RADIUS_OPTIONS_KM.includes(area.radiusKm)) {
+    return "Choose how far you travel from your centre point.";
+  }
+  if (area.places.length > MAX_SERVICE_AREA_PLACES) {
+    return `List at most ${MAX_SERVICE_AREA_PLACES} suburbs or postcodes.`;
+  }
+  return null;
+}
+
+export function describeServiceArea(area: ServiceArea): string {
+  const parts = [
+    area.centre ? `Within ${area.radiusKm} km of ${area.centre.label || "their base"}` : "",
+    area.places.length > 0 ? area.places.join(", ") : "",
+  ].filter(Boolean);
+  return parts.join("; ") || "Not set";
+}
+
+export function parseAddress(value: unknown): StructuredAddress | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  const point = toPoint(data);
+  const label = String(data.label || "").trim();
+  if (!label) return null;
+
+  return {
+    label,
+    suburb: String(data.suburb || "").trim(),
+    postcode: String(data.postcode || "").trim(),
+    lat: point?.lat ?? null,
+    lng: point?.lng ?? null,
+  };
+}
+
+// Distance is reported whenever both sides have coordinates, even when the
+// address is matched by postcode instead.
+export function coverageFor(area: ServiceArea, address: StructuredAddress): Coverage {
+  if (!hasServiceArea(area)) {
+    return { covered: true, areaSet: false, distanceKm: null };
+  }
+  const distanceKm =
+    area.centre && address.lat !== null && address.lng !== null
+      ? haversineKm(area.centre, { lat: address.lat, lng: address.lng })
+      : null;
+  const places = area.places.map(normalizePlace);
+  const byPlace = [address.suburb, address.postcode]
+    .filter(Boolean)
+    .some((place) => places.includes(normalizePlace(place)));
+
+  return {
+    covered: byPlace || (distanceKm !== null && distanceKm <= area.radiusKm),
+    areaSet: true,
+    distanceKm,
+  };
+}
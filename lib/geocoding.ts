@@ -0,0 +1,25 @@
+import { auth } from "@/lib/firebase";
+import { parseAddress, type StructuredAddress } from "@/lib/geo";
+
+// The lookup is only open to signed-in users; visitors can still type a
+// suburb and postcode by hand.
+export async function searchAddresses(query: string): Promise<StructuredAddress[]> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error("Sign in to search for an address, or enter a suburb and postcode.");
+  }
+
+  const token = await user.getIdToken();
+  const response = await fetch(`/api/geocode?q=${encodeURIComponent(query)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error || "Unable to look up that address.");
+  }
+
+  const results: unknown[] = Array.isArray(body?.results) ? body.results : [];
+  return results
+    .map(parseAddress)
+    .filter((item): item is StructuredAddress => item !== null);
+}
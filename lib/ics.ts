@@ -0,0 +1,130 @@
+// Builds iCalendar (RFC 5545) files. Used by the subscription route on the
+// server and the one-off download in the browser, so it stays free of
+// Firebase imports.
+
+import { bookingStartInstant, formatInTimeZone, type ZonedBooking } from "@/lib/timezones";
+
+export type IcsEvent = {
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  location: string;
+  description: string;
+  url?: string;
+  updatedAt?: Date;
+};
+
+export type IcsBooking = ZonedBooking & {
+  id: string;
+  service?: string;
+  address?: string;
+  notes?: string;
+  customerName?: string;
+  providerName?: string;
+  estimatedHours?: number;
+};
+
+const DEFAULT_DURATION_HOURS = 2;
+const PRODUCT_ID = "-//Prime Care//Bookings//EN";
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded with CRLF + space.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function utcStamp(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Start and end are written in UTC so every calendar app shows the job at the
+// right moment in its own zone.
+function eventLines(event: IcsEvent): string[] {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${utcStamp(event.updatedAt || new Date())}`,
+    `DTSTART:${utcStamp(event.start)}`,
+    `DTEND:${utcStamp(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    "END:VEVENT",
+  ];
+}
+
+export function buildCalendar(name: string, events: IcsEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(eventLines),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+// Providers see who the job is for; customers see who is coming.
+export function bookingToIcsEvent(
+  booking: IcsBooking,
+  viewerRole: "customer" | "provider",
+  appUrl: string
+): IcsEvent | null {
+  const start = bookingStartInstant(booking);
+  if (!start) return null;
+
+  const service = booking.service || "Service";
+  const hours = Number(booking.estimatedHours) || DEFAULT_DURATION_HOURS;
+  const forProvider = viewerRole === "provider";
+  const description = [
+    forProvider
+      ? `Customer: ${booking.customerName || "Customer"}`
+      : `Provider: ${booking.providerName || "Provider"}`,
+    booking.notes ? `Notes: ${booking.notes}` : "",
+    booking.timeZone ? `Local time: ${formatInTimeZone(start, booking.timeZone)}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const path = forProvider ? "/provider/dashboard" : "/book";
+
+  return {
+    uid: `${booking.id}@primecare`,
+    start,
+    durationMinutes: Math.round(hours * 60),
+    summary: forProvider
+      ? `${service} – ${booking.customerName || "Customer"}`
+      : `${service} with ${booking.providerName || "your provider"}`,
+    location: booking.address || "",
+    description,
+    url: `${appUrl.replace(/\/$/, "")}${path}#booking-${booking.id}`,
+  };
+}
@@ -0,0 +1,142 @@
+import {
+  collection,
+  doc,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { requestNotification } from "@/lib/notifications";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  deletePrivateFiles,
+  uploadPrivateFile,
+  validateUpload,
+  type PrivateFile,
+} from "@/lib/uploads";
+
+export type MessageRole = "customer" | "provider";
+
+export type BookingMessage = {
+  id: string;
+  senderUid: string;
+  senderRole: MessageRole;
+  text: string;
+  attachments: PrivateFile[];
+  createdAt: Timestamp | null;
+};
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_MESSAGE_IMAGES = 3;
+
+function parseMessage(id: string, data: DocumentData): BookingMessage {
+  return {
+    id,
+    senderUid: String(data.senderUid || ""),
+    senderRole: data.senderRole === "provider" ? "provider" : "customer",
+    text: String(data.text || ""),
+    attachments: Array.isArray(data.attachments) ? data.attachments : [],
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : null,
+  };
+}
+
+// Unread counters live on the booking so list views don't need to open every
+// thread to show a badge.
+export function unreadCount(
+  booking: { unread?: Partial<Record<MessageRole, number>> },
+  role: MessageRole
+): number {
+  return Number(booking.unread?.[role] || 0);
+}
+
+export function validateMessage(text: string, images: File[]): string | null {
+  if (!text.trim() && images.length === 0) {
+    return "Write a message or attach an image.";
+  }
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    return `Messages can be at most ${MAX_MESSAGE_LENGTH} characters.`;
+  }
+  if (images.length > MAX_MESSAGE_IMAGES) {
+    return `Attach up to ${MAX_MESSAGE_IMAGES} images per message.`;
+  }
+  for (const file of images) {
+    const message = validateUpload(file, ACCEPTED_IMAGE_TYPES, "Each image");
+    if (message) return message;
+  }
+  return null;
+}
+
+export function subscribeToMessages(
+  bookingId: string,
+  onChange: (messages: BookingMessage[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    query(collection(db, "bookings", bookingId, "messages"), orderBy("createdAt", "asc")),
+    (snapshot) =>
+      onChange(snapshot.docs.map((docSnap) => parseMessage(docSnap.id, docSnap.data()))),
+    onError
+  );
+}
+
+export async function sendBookingMessage(
+  bookingId: string,
+  sender: { uid: string; role: MessageRole },
+  text: string,
+  images: File[]
+) {
+  const validationError = validateMessage(text, images);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  // Each finished upload is tracked so nothing is left in Storage when the
+  // message can't be saved.
+  const uploaded: PrivateFile[] = [];
+  const recipientRole: MessageRole = sender.role === "customer" ? "provider" : "customer";
+  const trimmed = text.trim();
+
+  try {
+    const attachments = await Promise.all(
+      images.map(async (file) => {
+        const attachment = await uploadPrivateFile(
+          `bookingAttachments/${bookingId}/${sender.uid}`,
+          file
+        );
+        uploaded.push(attachment);
+        return attachment;
+      })
+    );
+
+    const batch = writeBatch(db);
+    batch.set(doc(collection(db, "bookings", bookingId, "messages")), {
+      senderUid: sender.uid,
+      senderRole: sender.role,
+      text: trimmed,
+      attachments,
+      createdAt: serverTimestamp(),
+    });
+    batch.update(doc(db, "bookings", bookingId), {
+      [`unread.${recipientRole}`]: increment(1),
+      lastMessageAt: serverTimestamp(),
+      lastMessagePreview: trimmed ? trimmed.slice(0, 120) : "Sent an image",
+    });
+    await batch.commit();
+  } catch (err) {
+    void deletePrivateFiles(uploaded);
+    throw err;
+  }
+
+  void requestNotification("message", bookingId);
+}
+
+
+export async function markThreadRead(bookingId: string, role: MessageRole) {
+  await updateDoc(doc(db, "bookings", bookingId), { [`unread.${role}`]: 0 });
+}
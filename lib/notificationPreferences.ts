@@ -0,0 +1,50 @@
+// Shared by the client settings form and the server-side mailer, so this file
+// must not import the Firebase client SDK.
+
+export type NotificationTopic = "newRequests" | "bookingUpdates" | "applicationUpdates";
+
+export type NotificationPreferences = {
+  email: Record<NotificationTopic, boolean>;
+};
+
+export const notificationTopicLabels: Record<
+  NotificationTopic,
+  { label: string; description: string }
+> = {
+  newRequests: {
+    label: "New requests",
+    description: "A customer books you or asks for a quote.",
+  },
+  bookingUpdates: {
+    label: "Booking updates",
+    description: "Bookings are confirmed, declined, rescheduled, quoted or cancelled.",
+  },
+  applicationUpdates: {
+    label: "Application updates",
+    description: "An admin reviews your provider application.",
+  },
+};
+
+export const NOTIFICATION_TOPICS = Object.keys(notificationTopicLabels) as NotificationTopic[];
+
+export function defaultNotificationPreferences(): NotificationPreferences {
+  return {
+    email: { newRequests: true, bookingUpdates: true, applicationUpdates: true },
+  };
+}
+
+// Missing topics default to on, so new kinds of email reach existing users.
+export function parseNotificationPreferences(value: unknown): NotificationPreferences {
+  const preferences = defaultNotificationPreferences();
+  const email =
+    value && typeof value === "object" ? (value as { email?: unknown }).email : undefined;
+  if (!email || typeof email !== "object") return preferences;
+
+  for (const topic of NOTIFICATION_TOPICS) {
+    const enabled = (email as Record<string, unknown>)[topic];
+    if (typeof enabled === "boolean") {
+      preferences.email[topic] = enabled;
+    }
+  }
+  return preferences;
+}
@@ -0,0 +1,122 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import {
+  parseNotificationPreferences,
+  type NotificationPreferences,
+} from "@/lib/notificationPreferences";
+
+export type NotificationKind = "booking" | "series" | "message" | "review" | "application";
+
+export type AppNotification = {
+  id: string;
+  kind: string;
+  title: string;
+  body: string;
+  link: string;
+  read: boolean;
+  createdAt: Timestamp | null;
+};
+
+const FEED_LIMIT = 30;
+
+// Asks the server to tell whoever is affected by the latest change, in their
+// feed and by email. This is best effort: a failure here must never undo or
+// block the change itself, so it never throws and returns the error message
+// (or null) for callers that want to show it.
+export async function requestNotification(
+  kind: NotificationKind,
+  id: string
+): Promise<string | null> {
+  const user = auth.currentUser;
+  if (!user) return null;
+
+  try {
+    const token = await user.getIdToken();
+    const response = await fetch("/api/notifications", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ kind, id }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      return body?.error || "Notification request failed.";
+    }
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Notification request failed.";
+  }
+}
+
+function parseNotification(id: string, data: DocumentData): AppNotification {
+  return {
+    id,
+    kind: String(data.kind || ""),
+    title: String(data.title || ""),
+    body: String(data.body || ""),
+    link: String(data.link || ""),
+    read: data.read === true,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : null,
+  };
+}
+
+// Feed entries are written by the server route, so clients only read them and
+// flip the read flag.
+export function subscribeToNotifications(
+  uid: string,
+  onChange: (notifications: AppNotification[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    query(
+      collection(db, "users", uid, "notifications"),
+      orderBy("createdAt", "desc"),
+      limit(FEED_LIMIT)
+    ),
+    (snapshot) =>
+      onChange(snapshot.docs.map((docSnap) => parseNotification(docSnap.id, docSnap.data()))),
+    onError
+  );
+}
+
+export async function markNotificationRead(uid: string, notificationId: string) {
+  await updateDoc(doc(db, "users", uid, "notifications", notificationId), { read: true });
+}
+
+export async function markAllNotificationsRead(uid: string, notificationIds: string[]) {
+  if (notificationIds.length === 0) return;
+
+  const batch = writeBatch(db);
+  notificationIds.forEach((id) =>
+    batch.update(doc(db, "users", uid, "notifications", id), { read: true })
+  );
+  await batch.commit();
+}
+
+export async function loadNotificationPreferences(uid: string): Promise<NotificationPreferences> {
+  const snapshot = await getDoc(doc(db, "notificationPreferences", uid));
+  return parseNotificationPreferences(snapshot.data());
+}
+
+export async function saveNotificationPreferences(
+  uid: string,
+  preferences: NotificationPreferences
+) {
+  await setDoc(doc(db, "notificationPreferences", uid), {
+    ...preferences,
+    updatedAt: serverTimestamp(),
+  });
+}
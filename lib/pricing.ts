@@ -0,0 +1,120 @@
+export type PricingModel = "hourly" | "fixed";
+
+export type ServicePricing = {
+  model: PricingModel;
+  hourlyRate: number;
+  fixedPrice: number;
+  calloutFee: number;
+  minimumHours: number;
+};
+
+// Keyed by service title, matching providerProfiles.services.
+export type ProviderPricing = Record<string, ServicePricing>;
+
+export type PriceBreakdown = {
+  model: PricingModel;
+  estimatedHours: number;
+  billableHours: number;
+  hourlyRate: number;
+  labour: number;
+  calloutFee: number;
+  total: number;
+};
+
+export const DURATION_OPTIONS = [1, 1.5, 2, 3, 4, 5, 6, 8];
+
+export const defaultServicePricing: ServicePricing = {
+  model: "hourly",
+  hourlyRate: 40,
+  fixedPrice: 0,
+  calloutFee: 0,
+  minimumHours: 1,
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+});
+
+export function formatPrice(amount: number): string {
+  return currencyFormatter.format(amount);
+}
+
+function toAmount(value: unknown): number {
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : 0;
+}
+
+function parseServicePricing(value: unknown): ServicePricing {
+  if (!value || typeof value !== "object") return defaultServicePricing;
+  const data = value as Record<string, unknown>;
+  return {
+    model: data.model === "fixed" ? "fixed" : "hourly",
+    hourlyRate: toAmount(data.hourlyRate),
+    fixedPrice: toAmount(data.fixedPrice),
+    calloutFee: toAmount(data.calloutFee),
+    minimumHours: toAmount(data.minimumHours),
+  };
+}
+
+export function parsePricing(value: unknown): ProviderPricing {
+  if (!value || typeof value !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([service, item]) => [
+      service,
+      parseServicePricing(item),
+    ])
+  );
+}
+
+export function validateServicePricing(service: string, pricing: ServicePricing): string | null {
+  if (pricing.model === "hourly" && pricing.hourlyRate <= 0) {
+    return `Set an hourly rate for ${service}.`;
+  }
+  if (pricing.model === "fixed" && pricing.fixedPrice <= 0) {
+    return `Set a fixed price for ${service}.`;
+  }
+  if (pricing.minimumHours > 24) {
+    return `The minimum for ${service} can't be more than 24 hours.`;
+  }
+  return null;
+}
+
+export function computePrice(pricing: ServicePricing, estimatedHours: number): PriceBreakdown {
+  const billableHours =
+    pricing.model === "hourly" ? Math.max(estimatedHours, pricing.minimumHours) : 0;
+  const labour =
+    pricing.model === "hourly" ? billableHours * pricing.hourlyRate : pricing.fixedPrice;
+  const total = Math.round((labour + pricing.calloutFee) * 100) / 100;
+
+  return {
+    model: pricing.model,
+    estimatedHours,
+    billableHours,
+    hourlyRate: pricing.model === "hourly" ? pricing.hourlyRate : 0,
+    labour,
+    calloutFee: pricing.calloutFee,
+    total,
+  };
+}
+
+// Providers without pricing for a service confirm the price themselves.
+export function priceForService(
+  pricing: ProviderPricing,
+  service: string,
+  estimatedHours: number
+): PriceBreakdown | null {
+  return pricing[service] ? computePrice(pricing[service], estimatedHours) : null;
+}
+
+export function describePricing(pricing: ServicePricing): string {
+  const base =
+    pricing.model === "fixed"
+      ? `${formatPrice(pricing.fixedPrice)} fixed`
+      : `${formatPrice(pricing.hourlyRate)}/hr${
+          pricing.minimumHours > 1 ? `, ${pricing.minimumHours} hour minimum` : ""
+        }`;
+  return pricing.calloutFee > 0
+    ? `${base} + ${formatPrice(pricing.calloutFee)} call-out`
+    : base;
+}
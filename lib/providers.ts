@@ -0,0 +1,122 @@
+import {
+  collection,
+  getCountFromServer,
+  query,
+  where,
+  type DocumentData,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  coverageFor,
+  hasServiceArea,
+  parseServiceArea,
+  type ServiceArea,
+  type StructuredAddress,
+} from "@/lib/geo";
+import { parsePricing, type ProviderPricing } from "@/lib/pricing";
+import { parseCriteriaAverages, type CriteriaAverages } from "@/lib/reviews";
+import { parseSchedule, type ProviderSchedule } from "@/lib/schedule";
+
+export type ProviderProfile = {
+  id: string;
+  displayName: string;
+  services: string[];
+  rating: number;
+  reviewCount: number;
+  criteriaRatings: CriteriaAverages;
+  bio: string;
+  acceptingBookings: boolean;
+  isOnline: boolean;
+  isApproved: boolean;
+  schedule: ProviderSchedule;
+  pricing: ProviderPricing;
+  serviceArea: ServiceArea;
+};
+
+export type ProviderMatch = {
+  provider: ProviderProfile;
+  areaSet: boolean;
+  distanceKm: number | null;
+};
+
+export type ProviderSort = "rating" | "reviews";
+
+export function parseProviderProfile(id: string, data: DocumentData): ProviderProfile {
+  const rating = Number(data.rating || 0);
+  const reviewCount = Number(data.reviewCount || 0);
+  return {
+    id,
+    displayName: String(data.displayName || "Provider"),
+    services: Array.isArray(data.services)
+      ? data.services.filter((item: unknown) => typeof item === "string")
+      : [],
+    rating: Number.isFinite(rating) ? rating : 0,
+    reviewCount: Number.isFinite(reviewCount) ? reviewCount : 0,
+    criteriaRatings: parseCriteriaAverages(data.criteriaRatings),
+    bio: String(data.bio || ""),
+    acceptingBookings: Boolean(data.acceptingBookings),
+    isOnline: Boolean(data.isOnline),
+    isApproved: Boolean(data.isApproved),
+    schedule: parseSchedule(data.schedule),
+    pricing: parsePricing(data.pricing),
+    serviceArea: parseServiceArea(data.serviceArea),
+  };
+}
+
+export function isBookable(provider: ProviderProfile): boolean {
+  return provider.isApproved && provider.isOnline && provider.acceptingBookings;
+}
+
+// Without an address every provider is listed; with one, only those whose
+// service area covers it, nearest distance attached where known. Providers
+// with no area saved yet are kept, after the ones who do cover it.
+export function matchProviders(
+  providers: ProviderProfile[],
+  address: StructuredAddress | null
+): ProviderMatch[] {
+  if (!address) {
+    return providers.map((provider) => ({
+      provider,
+      areaSet: hasServiceArea(provider.serviceArea),
+      distanceKm: null,
+    }));
+  }
+  const matches = providers.flatMap((provider) => {
+    const { covered, areaSet, distanceKm } = coverageFor(provider.serviceArea, address);
+    return covered ? [{ provider, areaSet, distanceKm }] : [];
+  });
+  return [
+    ...matches.filter((match) => match.areaSet),
+    ...matches.filter((match) => !match.areaSet),
+  ];
+}
+
+export function sortProviders(
+  providers: ProviderProfile[],
+  sort: ProviderSort = "rating"
+): ProviderProfile[] {
+  return [...providers].sort((a, b) => {
+    if (sort === "reviews") {
+      if (b.reviewCount === a.reviewCount) {
+        return b.rating - a.rating;
+      }
+      return b.reviewCount - a.reviewCount;
+    }
+    if (b.rating === a.rating) {
+      return b.reviewCount - a.reviewCount;
+    }
+    return b.rating - a.rating;
+  });
+}
+
+export async function countOnlineProviders(service: string): Promise<number> {
+  const snapshot = await getCountFromServer(
+    query(
+      collection(db, "providerProfiles"),
+      where("services", "array-contains", service),
+      where("isApproved", "==", true),
+      where("isOnline", "==", true)
+    )
+  );
+  return snapshot.data().count;
+}
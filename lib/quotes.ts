@@ -0,0 +1,172 @@
+import { Timestamp } from "firebase/firestore";
+import { toDateKey } from "@/lib/availability";
+import { transitionBooking } from "@/lib/bookings";
+import type { BookingActorRole } from "@/lib/bookingStatus";
+import type { PriceBreakdown } from "@/lib/pricing";
+import { bookingStartInstant } from "@/lib/timezones";
+
+export type QuoteLineItem = {
+  description: string;
+  amount: number;
+};
+
+export type Quote = {
+  items: QuoteLineItem[];
+  total: number;
+  validUntil: string;
+  note: string;
+  quotedAt: Timestamp | null;
+};
+
+export const MAX_QUOTE_ITEMS = 12;
+
+export function quoteTotal(items: QuoteLineItem[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+}
+
+export function parseQuote(value: unknown): Quote | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  const items = Array.isArray(data.items)
+    ? data.items
+        .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+        .map((item) => ({
+          description: String(item.description || ""),
+          amount: Number(item.amount) || 0,
+        }))
+    : [];
+  return {
+    items,
+    total: quoteTotal(items),
+    validUntil: typeof data.validUntil === "string" ? data.validUntil : "",
+    note: String(data.note || ""),
+    quotedAt: data.quotedAt instanceof Timestamp ? data.quotedAt : null,
+  };
+}
+
+export function isQuoteExpired(quote: Quote, now: Date = new Date()): boolean {
+  return !quote.validUntil || quote.validUntil < toDateKey(now);
+}
+
+export function validateQuote(
+  items: QuoteLineItem[],
+  validUntil: string,
+  now: Date = new Date()
+): string | null {
+  if (items.length === 0) {
+    return "Add at least one line item.";
+  }
+  if (items.length > MAX_QUOTE_ITEMS) {
+    return `A quote can have at most ${MAX_QUOTE_ITEMS} line items.`;
+  }
+  if (items.some((item) => !item.description.trim())) {
+    return "Every line item needs a description.";
+  }
+  if (items.some((item) => !Number.isFinite(item.amount) || item.amount < 0)) {
+    return "Line item amounts must be zero or more.";
+  }
+  if (quoteTotal(items) <= 0) {
+    return "The quote total must be more than zero.";
+  }
+  if (!validUntil || validUntil < toDateKey(now)) {
+    return "Pick a validity date from today onwards.";
+  }
+  return null;
+}
+
+// An accepted quote is a fixed price, stored in the same shape the rate-based
+// estimate uses so every price renders the same way.
+export function quotedPrice(quote: Quote, estimatedHours: number): PriceBreakdown {
+  return {
+    model: "fixed",
+    estimatedHours,
+    billableHours: 0,
+    hourlyRate: 0,
+    labour: quote.total,
+    calloutFee: 0,
+    total: quote.total,
+  };
+}
+
+export async function sendQuote(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole },
+  quote: { items: QuoteLineItem[]; validUntil: string; note: string }
+) {
+  const items = quote.items.map((item) => ({
+    description: item.description.trim(),
+    amount: Number(item.amount),
+  }));
+  const validationError = validateQuote(items, quote.validUntil);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const total = quoteTotal(items);
+  await transitionBooking({
+    bookingId,
+    to: "quoted",
+    actor,
+    reason: `Quoted ${total.toFixed(2)}, valid until ${quote.validUntil}`,
+    fields: {
+      quote: {
+        items,
+        total,
+        validUntil: quote.validUntil,
+        note: quote.note.trim(),
+        quotedAt: Timestamp.now(),
+      },
+      providerUpdatedBy: actor.uid,
+    },
+  });
+}
+
+// Accepting turns the quote request into a normal accepted booking at the
+// time the customer originally picked.
+export async function acceptQuote(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole }
+) {
+  await transitionBooking({
+    bookingId,
+    to: "accepted",
+    actor,
+    reason: "Quote accepted",
+    // The quoted total replaces whatever the rates would have priced.
+    fields: (booking) => {
+      const quote = parseQuote(booking.quote);
+      return {
+        quoteAcceptedAt: Timestamp.now(),
+        price: quote ? quotedPrice(quote, Number(booking.estimatedHours) || 0) : null,
+      };
+    },
+    guard: (booking) => {
+      const quote = parseQuote(booking.quote);
+      if (!quote) {
+        throw new Error("This booking has no quote to accept.");
+      }
+      if (isQuoteExpired(quote)) {
+        throw new Error("This quote has expired. Ask the provider for an updated quote.");
+      }
+      const startsAt = bookingStartInstant(booking);
+      if (startsAt && startsAt <= new Date()) {
+        throw new Error("The requested time has already passed. Ask the provider for a new time.");
+      }
+    },
+  });
+}
+
+export async function rejectQuote(
+  bookingId: string,
+  actor: { uid: string; role: BookingActorRole },
+  reason: string
+) {
+  const message = reason.trim() || "Quote rejected";
+  await transitionBooking({
+    bookingId,
+    to: "cancelled",
+    actor,
+    reason: message,
+    fields: { cancelledBy: actor.role, cancellationReason: message },
+  });
+}
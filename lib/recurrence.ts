@@ -0,0 +1,100 @@
+import { toDateKey } from "@/lib/availability";
+import { WEEKDAY_LABELS } from "@/lib/schedule";
+
+export type RecurrenceFrequency = "weekly" | "fortnightly" | "monthly" | "custom";
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  // Only used by "custom". Indexed like Date.getDay().
+  weekdays: number[];
+  endType: "date" | "count";
+  endDate: string;
+  count: number;
+};
+
+export const MAX_OCCURRENCES = 26;
+// Custom weekday series are walked day by day, so cap how far they can reach.
+const MAX_SERIES_DAYS = 366;
+
+export const recurrenceLabels: Record<RecurrenceFrequency, string> = {
+  weekly: "Every week",
+  fortnightly: "Every two weeks",
+  monthly: "Every month",
+  custom: "Custom weekdays",
+};
+
+export function defaultRecurrenceRule(): RecurrenceRule {
+  return { frequency: "weekly", weekdays: [], endType: "count", endDate: "", count: 4 };
+}
+
+function parseDateKey(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addMonths(start: Date, months: number): Date {
+  const target = new Date(start.getFullYear(), start.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(start.getDate(), lastDay));
+  return target;
+}
+
+// The start date is always the first occurrence, even for custom weekdays
+// that don't include it.
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  if (!startDate) return [];
+
+  const start = parseDateKey(startDate);
+  const limit = rule.endType === "count" ? Math.min(rule.count, MAX_OCCURRENCES) : MAX_OCCURRENCES;
+  const endDate = rule.endType === "date" ? rule.endDate : "";
+  const dates: string[] = [startDate];
+
+  for (let step = 1; dates.length < limit && step <= MAX_SERIES_DAYS; step += 1) {
+    let next: Date;
+    if (rule.frequency === "weekly") {
+      next = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * 7);
+    } else if (rule.frequency === "fortnightly") {
+      next = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * 14);
+    } else if (rule.frequency === "monthly") {
+      next = addMonths(start, step);
+    } else {
+      next = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+      if (!rule.weekdays.includes(next.getDay())) continue;
+    }
+
+    const key = toDateKey(next);
+    if (endDate && key > endDate) break;
+    dates.push(key);
+  }
+
+  return dates;
+}
+
+export function validateRecurrence(startDate: string, rule: RecurrenceRule): string | null {
+  if (rule.frequency === "custom" && rule.weekdays.length === 0) {
+    return "Pick at least one weekday for a custom series.";
+  }
+  if (rule.endType === "count" && (rule.count < 2 || rule.count > MAX_OCCURRENCES)) {
+    return `A series needs between 2 and ${MAX_OCCURRENCES} visits.`;
+  }
+  if (rule.endType === "date" && (!rule.endDate || rule.endDate <= startDate)) {
+    return "Pick an end date after the first visit.";
+  }
+  if (expandRecurrence(startDate, rule).length < 2) {
+    return "That end date only leaves one visit. Pick a later end date.";
+  }
+  return null;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const base =
+    rule.frequency === "custom"
+      ? `Every ${[...rule.weekdays]
+          .sort((a, b) => a - b)
+          .map((day) => WEEKDAY_LABELS[day])
+          .join(", ")}`
+      : recurrenceLabels[rule.frequency];
+  return rule.endType === "count"
+    ? `${base}, ${rule.count} visits`
+    : `${base} until ${rule.endDate}`;
+}
@@ -0,0 +1,50 @@
+// Response deadlines for pending requests. Shared by the booking flows in the
+// browser and the expiry job on the server, so it stays free of Firebase.
+
+import type { BookingStatus } from "@/lib/bookingStatus";
+import { bookingStartInstant, type InstantLike, type ZonedBooking } from "@/lib/timezones";
+
+export type ExpiringBooking = ZonedBooking & {
+  status?: string;
+  seriesId?: string;
+  respondBy?: InstantLike | Date | null;
+  createdAt?: InstantLike | null;
+};
+
+function readResponseHours(): number {
+  const value = Number(process.env.NEXT_PUBLIC_REQUEST_RESPONSE_HOURS);
+  return Number.isFinite(value) && value > 0 ? value : 48;
+}
+
+// How long a provider has to answer a new request.
+export const REQUEST_RESPONSE_HOURS = readResponseHours();
+
+// Statuses where the booking is waiting on the provider.
+export const AWAITING_PROVIDER_STATUSES: BookingStatus[] = ["requested", "quote_requested"];
+
+// The provider must answer within REQUEST_RESPONSE_HOURS, and always before
+// the job would start.
+export function responseDeadline(requestedAt: Date, startsAt: Date | null): Date {
+  const byHours = new Date(requestedAt.getTime() + REQUEST_RESPONSE_HOURS * 60 * 60 * 1000);
+  return startsAt && startsAt < byHours ? startsAt : byHours;
+}
+
+// Bookings saved before deadlines existed get one from their creation time.
+export function respondByFor(booking: ExpiringBooking): Date | null {
+  if (booking.respondBy) {
+    return booking.respondBy instanceof Date ? booking.respondBy : booking.respondBy.toDate();
+  }
+  const startsAt = bookingStartInstant(booking);
+  const createdAt = booking.createdAt?.toDate();
+  if (!createdAt) return startsAt;
+  return responseDeadline(createdAt, startsAt);
+}
+
+// Visits in a recurring series all carry the first visit's deadline, since
+// the provider answers the series as a whole; the expiry job then expires the
+// whole series.
+export function isResponseOverdue(booking: ExpiringBooking, now: Date = new Date()): boolean {
+  if (!AWAITING_PROVIDER_STATUSES.some((status) => status === booking.status)) return false;
+  const deadline = respondByFor(booking);
+  return Boolean(deadline && deadline <= now);
+}
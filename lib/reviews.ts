@@ -0,0 +1,443 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { requestNotification } from "@/lib/notifications";
+
+export type ReviewCriterion = "punctuality" | "quality" | "communication" | "value";
+
+export const reviewCriterionLabels: Record<ReviewCriterion, string> = {
+  punctuality: "Punctuality",
+  quality: "Quality",
+  communication: "Communication",
+  value: "Value",
+};
+
+export const REVIEW_CRITERIA = Object.keys(reviewCriterionLabels) as ReviewCriterion[];
+
+export type CriteriaScores = Record<ReviewCriterion, number>;
+
+export type ReviewReply = {
+  text: string;
+  repliedAt: Timestamp | null;
+};
+
+// Reviews are stored under the booking id, which keeps it to one per booking.
+// Hidden reviews stay in the collection for the record but drop out of the
+// public profile and the provider's averages.
+export type Review = {
+  id: string;
+  bookingId: string;
+  providerUid: string;
+  customerUid: string;
+  customerName: string;
+  service: string;
+  rating: number;
+  scores: Partial<CriteriaScores>;
+  comment: string;
+  reply: ReviewReply | null;
+  hidden: boolean;
+  createdAt: Timestamp | null;
+};
+
+export type ReviewInput = {
+  rating: number;
+  scores: Partial<CriteriaScores>;
+  comment: string;
+};
+
+export const MAX_REVIEW_LENGTH = 2000;
+
+export const MAX_REPLY_LENGTH = 1000;
+
+export const MAX_REPORT_REASON_LENGTH = 500;
+
+function isScore(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+function parseScores(value: unknown): Partial<CriteriaScores> {
+  if (!value || typeof value !== "object") return {};
+  const data = value as Record<string, unknown>;
+  return Object.fromEntries(
+    REVIEW_CRITERIA.filter((criterion) => isScore(data[criterion])).map((criterion) => [
+      criterion,
+      data[criterion] as number,
+    ])
+  );
+}
+
+export function parseReview(id: string, data: DocumentData): Review {
+  return {
+    id,
+    bookingId: String(data.bookingId || id),
+    providerUid: String(data.providerUid || ""),
+    customerUid: String(data.customerUid || ""),
+    customerName: String(data.customerName || "Customer"),
+    service: String(data.service || ""),
+    rating: Number(data.rating) || 0,
+    scores: parseScores(data.scores),
+    comment: String(data.comment || ""),
+    reply:
+      data.reply && typeof data.reply === "object" && data.reply.text
+        ? {
+            text: String(data.reply.text),
+            repliedAt: data.reply.repliedAt instanceof Timestamp ? data.reply.repliedAt : null,
+          }
+        : null,
+    hidden: Boolean(data.hidden),
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : null,
+  };
+}
+
+// Per-criterion averages kept on the provider profile. Ratings left before
+// sub-scores existed count towards `rating` but not towards these.
+export type CriteriaAverages = {
+  averages: Partial<CriteriaScores>;
+  count: number;
+};
+
+export function parseCriteriaAverages(value: unknown): CriteriaAverages {
+  const data = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const averages = data.averages && typeof data.averages === "object" ? data.averages : {};
+  const count = Number(data.count);
+  return {
+    averages: Object.fromEntries(
+      REVIEW_CRITERIA.map((criterion) => [
+        criterion,
+        Number((averages as Record<string, unknown>)[criterion]),
+      ]).filter(([, average]) => Number.isFinite(average) && (average as number) > 0)
+    ),
+    count: Number.isFinite(count) && count > 0 ? count : 0,
+  };
+}
+
+function addToAverage(average: number, count: number, value: number): number {
+  return Number(((average * count + value) / (count + 1)).toFixed(2));
+}
+
+export function validateReview(input: ReviewInput): string | null {
+  if (!isScore(input.rating)) {
+    return "Choose an overall rating from 1 to 5.";
+  }
+  if (REVIEW_CRITERIA.some((criterion) => !isScore(input.scores[criterion]))) {
+    return "Rate punctuality, quality, communication and value.";
+  }
+  if (input.comment.length > MAX_REVIEW_LENGTH) {
+    return `Keep your review under ${MAX_REVIEW_LENGTH} characters.`;
+  }
+  return null;
+}
+
+// Writes the review, marks the booking as rated and folds the scores into the
+// provider's averages in one transaction, so two reviews can't race.
+export async function submitReview(bookingId: string, customerUid: string, input: ReviewInput) {
+  const review = { ...input, comment: input.comment.trim() };
+  const message = validateReview(review);
+  if (message) {
+    throw new Error(message);
+  }
+
+  const bookingRef = doc(db, "bookings", bookingId);
+  const reviewRef = doc(db, "reviews", bookingId);
+
+  await runTransaction(db, async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists()) {
+      throw new Error("Booking not found.");
+    }
+
+    const booking = bookingSnap.data();
+    if (booking.customerUid !== customerUid) {
+      throw new Error("You are not allowed to review this booking.");
+    }
+    if (booking.status !== "completed") {
+      throw new Error("You can only review completed bookings.");
+    }
+    if (booking.customerRating) {
+      throw new Error("Booking already reviewed.");
+    }
+
+    const providerRef = doc(db, "providerProfiles", String(booking.providerUid));
+    const providerSnap = await transaction.get(providerRef);
+    if (!providerSnap.exists()) {
+      throw new Error("Provider profile not found.");
+    }
+
+    const provider = providerSnap.data();
+    const reviewCount = Number(provider.reviewCount || 0);
+    const criteria = parseCriteriaAverages(provider.criteriaRatings);
+
+    transaction.set(reviewRef, {
+      bookingId,
+      providerUid: booking.providerUid,
+      customerUid,
+      customerName: String(booking.customerName || "Customer"),
+      service: String(booking.service || ""),
+      rating: review.rating,
+      scores: review.scores,
+      comment: review.comment,
+      createdAt: serverTimestamp(),
+    });
+
+    transaction.update(providerRef, {
+      rating: addToAverage(Number(provider.rating || 0), reviewCount, review.rating),
+      reviewCount: reviewCount + 1,
+      criteriaRatings: {
+        averages: Object.fromEntries(
+          REVIEW_CRITERIA.map((criterion) => [
+            criterion,
+            addToAverage(
+              criteria.averages[criterion] || 0,
+              criteria.count,
+              review.scores[criterion] as number
+            ),
+          ])
+        ),
+        count: criteria.count + 1,
+      },
+      updatedAt: serverTimestamp(),
+    });
+
+    transaction.update(bookingRef, {
+      customerRating: review.rating,
+      reviewId: reviewRef.id,
+      ratedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  });
+
+  void requestNotification("review", bookingId);
+}
+
+export function subscribeProviderReviews(
+  providerUid: string,
+  onChange: (reviews: Review[]) => void
+): () => void {
+  return onSnapshot(
+    query(collection(db, "reviews"), where("providerUid", "==", providerUid)),
+    (snapshot) => {
+      onChange(
+        snapshot.docs
+          .map((docSnap) => parseReview(docSnap.id, docSnap.data()))
+          .sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0))
+      );
+    }
+  );
+}
+
+// Providers get one public reply per review. It can't be edited afterwards,
+// which keeps the exchange readable for later customers.
+export async function replyToReview(reviewId: string, providerUid: string, text: string) {
+  const reply = text.trim();
+  if (!reply) {
+    throw new Error("Write a reply first.");
+  }
+  if (reply.length > MAX_REPLY_LENGTH) {
+    throw new Error(`Keep your reply under ${MAX_REPLY_LENGTH} characters.`);
+  }
+
+  const reviewRef = doc(db, "reviews", reviewId);
+  await runTransaction(db, async (transaction) => {
+    const reviewSnap = await transaction.get(reviewRef);
+    if (!reviewSnap.exists()) {
+      throw new Error("Review not found.");
+    }
+    const review = reviewSnap.data();
+    if (review.providerUid !== providerUid) {
+      throw new Error("You can only reply to your own reviews.");
+    }
+    if (review.reply) {
+      throw new Error("You have already replied to this review.");
+    }
+    transaction.update(reviewRef, {
+      reply: { text: reply, repliedAt: serverTimestamp() },
+    });
+  });
+}
+
+export type ReviewReportStatus = "open" | "upheld" | "dismissed";
+
+export type ReviewReport = {
+  id: string;
+  reviewId: string;
+  providerUid: string;
+  reporterUid: string;
+  reporterRole: "customer" | "provider";
+  reason: string;
+  status: ReviewReportStatus;
+  createdAt: Timestamp | null;
+};
+
+export function parseReviewReport(id: string, data: DocumentData): ReviewReport {
+  const status: ReviewReportStatus =
+    data.status === "upheld" || data.status === "dismissed" ? data.status : "open";
+  return {
+    id,
+    reviewId: String(data.reviewId || ""),
+    providerUid: String(data.providerUid || ""),
+    reporterUid: String(data.reporterUid || ""),
+    reporterRole: data.reporterRole === "provider" ? "provider" : "customer",
+    reason: String(data.reason || ""),
+    status,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : null,
+  };
+}
+
+// One report per person per review; reporting again is a no-op error rather
+// than a second entry in the admin queue.
+export async function reportReview(
+  reviewId: string,
+  reporter: { uid: string; role: ReviewReport["reporterRole"] },
+  reason: string
+) {
+  const trimmed = reason.trim();
+  if (!trimmed) {
+    throw new Error("Tell us what is wrong with this review.");
+  }
+  if (trimmed.length > MAX_REPORT_REASON_LENGTH) {
+    throw new Error(`Keep the reason under ${MAX_REPORT_REASON_LENGTH} characters.`);
+  }
+
+  const reviewRef = doc(db, "reviews", reviewId);
+  const reportRef = doc(db, "reviewReports", `${reviewId}_${reporter.uid}`);
+  await runTransaction(db, async (transaction) => {
+    const [reviewSnap, reportSnap] = await Promise.all([
+      transaction.get(reviewRef),
+      transaction.get(reportRef),
+    ]);
+    if (!reviewSnap.exists() || reviewSnap.data().hidden) {
+      throw new Error("Review not found.");
+    }
+    if (reportSnap.exists()) {
+      throw new Error("You have already reported this review.");
+    }
+    transaction.set(reportRef, {
+      reviewId,
+      providerUid: String(reviewSnap.data().providerUid || ""),
+      reporterUid: reporter.uid,
+      reporterRole: reporter.role,
+      reason: trimmed,
+      status: "open",
+      createdAt: serverTimestamp(),
+    });
+  });
+}
+
+export function subscribeOpenReports(onChange: (reports: ReviewReport[]) => void): () => void {
+  return onSnapshot(
+    query(collection(db, "reviewReports"), where("status", "==", "open")),
+    (snapshot) => {
+      onChange(
+        snapshot.docs
+          .map((docSnap) => parseReviewReport(docSnap.id, docSnap.data()))
+          .sort((a, b) => (a.createdAt?.seconds || 0) - (b.createdAt?.seconds || 0))
+      );
+    }
+  );
+}
+
+// The reverse of addToAverage, for a review that stops counting.
+function removeFromAverage(average: number, count: number, value: number): number {
+  if (count <= 1) return 0;
+  return Number(Math.max(0, (average * count - value) / (count - 1)).toFixed(2));
+}
+
+function hasAllScores(scores: Partial<CriteriaScores>): boolean {
+  return REVIEW_CRITERIA.every((criterion) => isScore(scores[criterion]));
+}
+
+// Hiding upholds every open report on the review and takes its scores back
+// out of the provider's averages; keeping it dismisses them. Hiding and the
+// averages change in one transaction that reads the provider profile, so it
+// can't race with submitReview or leave the averages stale.
+export async function moderateReview(reviewId: string, adminUid: string, hide: boolean) {
+  const reviewRef = doc(db, "reviews", reviewId);
+  const openReports = () =>
+    getDocs(
+      query(
+        collection(db, "reviewReports"),
+        where("reviewId", "==", reviewId),
+        where("status", "==", "open")
+      )
+    );
+  const resolution = {
+    status: hide ? "upheld" : "dismissed",
+    resolvedBy: adminUid,
+    resolvedAt: serverTimestamp(),
+  };
+  const reportSnap = await openReports();
+
+  await runTransaction(db, async (transaction) => {
+    const reviewSnap = await transaction.get(reviewRef);
+    // Reports on a deleted review can still be dismissed to clear the queue.
+    if (hide && !reviewSnap.exists()) {
+      throw new Error("Review not found.");
+    }
+
+    const review = reviewSnap.exists() ? parseReview(reviewSnap.id, reviewSnap.data()) : null;
+    const hiding = hide && review !== null && !review.hidden;
+    const providerRef =
+      hiding && review.providerUid ? doc(db, "providerProfiles", review.providerUid) : null;
+    const providerSnap = providerRef ? await transaction.get(providerRef) : null;
+
+    reportSnap.docs.forEach((docSnap) => {
+      transaction.update(docSnap.ref, resolution);
+    });
+    if (!hiding) return;
+
+    transaction.update(reviewRef, {
+      hidden: true,
+      hiddenBy: adminUid,
+      hiddenAt: serverTimestamp(),
+    });
+    if (!providerRef || !providerSnap?.exists() || !isScore(review.rating)) return;
+
+    const provider = providerSnap.data();
+    const reviewCount = Number(provider.reviewCount || 0);
+    const criteria = parseCriteriaAverages(provider.criteriaRatings);
+    transaction.update(providerRef, {
+      rating: removeFromAverage(Number(provider.rating || 0), reviewCount, review.rating),
+      reviewCount: Math.max(0, reviewCount - 1),
+      ...(hasAllScores(review.scores) && criteria.count > 0
+        ? {
+            criteriaRatings: {
+              averages:
+                criteria.count === 1
+                  ? {}
+                  : Object.fromEntries(
+                      REVIEW_CRITERIA.map((criterion) => [
+                        criterion,
+                        removeFromAverage(
+                          criteria.averages[criterion] || 0,
+                          criteria.count,
+                          review.scores[criterion] as number
+                        ),
+                      ])
+                    ),
+              count: criteria.count - 1,
+            },
+          }
+        : {}),
+      updatedAt: serverTimestamp(),
+    });
+  });
+
+  // Queries can't run inside a client transaction, so reports filed while it
+  // ran are resolved the same way afterwards.
+  const lateReports = await openReports();
+  if (lateReports.empty) return;
+  const batch = writeBatch(db);
+  lateReports.docs.forEach((docSnap) => batch.update(docSnap.ref, resolution));
+  await batch.commit();
+}
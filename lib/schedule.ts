@@ -0,0 +1,116 @@
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezones";
+
+export type WorkingDay = {
+  enabled: boolean;
+  start: string;
+  end: string;
+};
+
+export type ProviderSchedule = {
+  // Indexed like Date.getDay(): 0 is Sunday.
+  weeklyHours: WorkingDay[];
+  slotMinutes: number;
+  bufferMinutes: number;
+  blockedDates: string[];
+  // IANA zone of the service area. Working hours and booking times are
+  // wall-clock times in this zone.
+  timeZone: string;
+};
+
+export const WEEKDAY_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const SLOT_LENGTH_OPTIONS = [30, 60, 90, 120, 180];
+export const BUFFER_OPTIONS = [0, 15, 30, 45, 60];
+
+export const defaultSchedule: ProviderSchedule = {
+  weeklyHours: WEEKDAY_LABELS.map((_, index) => ({
+    enabled: index >= 1 && index <= 5,
+    start: "08:00",
+    end: "17:00",
+  })),
+  slotMinutes: 60,
+  bufferMinutes: 15,
+  blockedDates: [],
+  timeZone: DEFAULT_TIME_ZONE,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function timeToMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function minutesToTime(value: number): string {
+  const hours = Math.floor(value / 60);
+  const minutes = value % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function parseWorkingDay(value: unknown, fallback: WorkingDay): WorkingDay {
+  if (!value || typeof value !== "object") return fallback;
+  const day = value as Record<string, unknown>;
+  const start = typeof day.start === "string" && TIME_PATTERN.test(day.start) ? day.start : fallback.start;
+  const end = typeof day.end === "string" && TIME_PATTERN.test(day.end) ? day.end : fallback.end;
+  return { enabled: Boolean(day.enabled), start, end };
+}
+
+export function parseSchedule(value: unknown): ProviderSchedule {
+  if (!value || typeof value !== "object") return defaultSchedule;
+  const data = value as Record<string, unknown>;
+  const weeklyHours = Array.isArray(data.weeklyHours) ? data.weeklyHours : [];
+  const slotMinutes = Number(data.slotMinutes);
+  const bufferMinutes = Number(data.bufferMinutes);
+
+  return {
+    weeklyHours: defaultSchedule.weeklyHours.map((fallback, index) =>
+      parseWorkingDay(weeklyHours[index], fallback)
+    ),
+    slotMinutes:
+      Number.isFinite(slotMinutes) && slotMinutes > 0 ? slotMinutes : defaultSchedule.slotMinutes,
+    bufferMinutes:
+      Number.isFinite(bufferMinutes) && bufferMinutes >= 0
+        ? bufferMinutes
+        : defaultSchedule.bufferMinutes,
+    blockedDates: Array.isArray(data.blockedDates)
+      ? data.blockedDates
+          .filter((item): item is string => typeof item === "string" && DATE_PATTERN.test(item))
+          .sort()
+      : [],
+    timeZone:
+      typeof data.timeZone === "string" && isValidTimeZone(data.timeZone)
+        ? data.timeZone
+        : defaultSchedule.timeZone,
+  };
+}
+
+export function validateSchedule(schedule: ProviderSchedule): string | null {
+  for (const [index, day] of schedule.weeklyHours.entries()) {
+    if (!day.enabled) continue;
+    if (!TIME_PATTERN.test(day.start) || !TIME_PATTERN.test(day.end)) {
+      return `${WEEKDAY_LABELS[index]} needs a valid start and end time.`;
+    }
+    if (timeToMinutes(day.end) - timeToMinutes(day.start) < schedule.slotMinutes) {
+      return `${WEEKDAY_LABELS[index]} must be at least one slot long.`;
+    }
+  }
+
+  if (!isValidTimeZone(schedule.timeZone)) {
+    return "Pick a valid time zone.";
+  }
+
+  if (!schedule.weeklyHours.some((day) => day.enabled)) {
+    return "Enable at least one working day.";
+  }
+
+  return null;
+}
@@ -0,0 +1,409 @@
+import type { BookingActorRole, BookingStatus } from "@/lib/bookingStatus";
+import { formatPrice } from "@/lib/pricing";
+import { formatBookingDay, formatBookingTime } from "@/lib/timezones";
+
+export type BookingEmailDetails = {
+  bookingId: string;
+  service: string;
+  date: string;
+  time: string;
+  customerName: string;
+  providerName: string;
+  reason: string;
+  quoteTotal: number | null;
+  seriesSummary: string;
+  broadcast: boolean;
+  startAt: Date | null;
+  timeZone: string;
+};
+
+export type NotificationEvent =
+  | {
+      kind: "booking";
+      recipientRole: "customer" | "provider";
+      actorRole: BookingActorRole;
+      from: BookingStatus | null;
+      to: BookingStatus;
+      booking: BookingEmailDetails;
+    }
+  | {
+      kind: "series";
+      recipientRole: "customer" | "provider";
+      status: "requested" | "accepted" | "declined" | "cancelled" | "expired";
+      booking: BookingEmailDetails;
+    }
+  | {
+      kind: "message";
+      recipientRole: "customer" | "provider";
+      preview: string;
+      booking: BookingEmailDetails;
+    }
+  | {
+      kind: "review";
+      recipientRole: "provider";
+      rating: number;
+      comment: string;
+      booking: BookingEmailDetails;
+    }
+  | {
+      kind: "application";
+      status: "approved" | "needs_more_info" | "rejected";
+      applicantName: string;
+    }
+  | {
+      kind: "application_submitted";
+      applicationId: string;
+      applicantName: string;
+      service: string;
+    };
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type NotificationSummary = {
+  title: string;
+  body: string;
+  link: string;
+};
+
+type EmailContent = {
+  subject: string;
+  lines: string[];
+  action: { label: string; path: string };
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDay(booking: BookingEmailDetails): string {
+  return formatBookingDay(booking) || booking.date;
+}
+
+// Times are written on the service location's clock, with its zone.
+function when(booking: BookingEmailDetails): string {
+  return formatBookingTime(booking);
+}
+
+function withReason(line: string, booking: BookingEmailDetails): string[] {
+  return booking.reason ? [line, `Reason: ${booking.reason}`] : [line];
+}
+
+// Links carry the booking's anchor so the page can scroll straight to it.
+function bookingAction(recipientRole: "customer" | "provider", bookingId: string) {
+  return recipientRole === "provider"
+    ? { label: "Open your dashboard", path: `/provider/dashboard#booking-${bookingId}` }
+    : { label: "View your bookings", path: `/book#booking-${bookingId}` };
+}
+
+function bookingContent(event: Extract<NotificationEvent, { kind: "booking" }>): EmailContent {
+  const { booking, recipientRole, actorRole, from, to } = event;
+  const forProvider = recipientRole === "provider";
+  const action = bookingAction(recipientRole, booking.bookingId);
+  const otherParty =
+    actorRole === "admin"
+      ? "Prime Care support"
+      : forProvider
+        ? booking.customerName
+        : booking.providerName;
+
+  switch (to) {
+    case "requested":
+      if (forProvider && from === null && booking.broadcast) {
+        return {
+          subject: `Open booking request: ${booking.service}`,
+          lines: [
+            `${booking.customerName} needs ${booking.service} on ${when(booking)} and asked for the first available provider.`,
+            "The first provider to accept gets the booking.",
+          ],
+          action,
+        };
+      }
+      if (forProvider && from === null) {
+        return {
+          subject: `New booking request: ${booking.service}`,
+          lines: [
+            `${booking.customerName} would like to book ${booking.service} on ${when(booking)}.`,
+            "Accept, decline or propose another time from your dashboard.",
+          ],
+          action,
+        };
+      }
+      return {
+        subject: `Booking needs confirming: ${booking.service}`,
+        lines: [
+          `${otherParty} updated the ${booking.service} booking. It is now requested for ${when(booking)}.`,
+        ],
+        action,
+      };
+    case "quote_requested":
+      return {
+        subject: `New quote request: ${booking.service}`,
+        lines: [
+          `${booking.customerName} asked for a quote for ${booking.service} around ${when(booking)}.`,
+          "Review the job description and photos, then send a quote from your dashboard.",
+        ],
+        action,
+      };
+    case "quoted":
+      return {
+        subject: `Your quote for ${booking.service} is ready`,
+        lines: [
+          `${booking.providerName} quoted ${
+            booking.quoteTotal === null ? "for the job" : formatPrice(booking.quoteTotal)
+          } for ${booking.service}.`,
+          "Accept or decline the quote from your bookings.",
+        ],
+        action,
+      };
+    case "reschedule_proposed":
+      return {
+        subject: `New times proposed for ${booking.service}`,
+        lines: withReason(
+          `${booking.providerName} can't make ${when(booking)} and has proposed other times.`,
+          booking
+        ),
+        action,
+      };
+    case "accepted":
+      return {
+        subject: `Booking confirmed: ${booking.service} on ${formatDay(booking)}`,
+        lines: [
+          forProvider
+            ? `${otherParty} confirmed ${booking.service} on ${when(booking)}.`
+            : `${otherParty} confirmed your ${booking.service} booking on ${when(booking)}.`,
+        ],
+        action,
+      };
+    case "declined":
+      return {
+        subject: `Booking declined: ${booking.service}`,
+        lines: withReason(
+          `${otherParty} declined the ${booking.service} booking on ${when(booking)}.`,
+          booking
+        ),
+        action,
+      };
+    case "cancelled":
+      return {
+        subject: `Booking cancelled: ${booking.service} on ${formatDay(booking)}`,
+        lines: withReason(
+          `${otherParty} cancelled the ${booking.service} booking on ${when(booking)}.`,
+          booking
+        ),
+        action,
+      };
+    case "completed":
+      return {
+        subject: `Job completed: ${booking.service}`,
+        lines: [
+          `${booking.providerName} marked ${booking.service} on ${when(booking)} as completed.`,
+          "You can rate the visit from your bookings.",
+        ],
+        action,
+      };
+    case "expired":
+      return forProvider
+        ? {
+            subject: `Request expired: ${booking.service}`,
+            lines: [
+              `${booking.customerName}'s request for ${booking.service} on ${when(booking)} expired because it wasn't answered in time.`,
+            ],
+            action,
+          }
+        : {
+            subject: `No reply yet: your ${booking.service} request expired`,
+            lines: [
+              booking.broadcast
+                ? `No provider accepted your ${booking.service} request for ${when(booking)} in time.`
+                : `${booking.providerName} didn't respond to your ${booking.service} request for ${when(booking)} in time.`,
+              "You can send it to another provider from your bookings.",
+            ],
+            action,
+          };
+  }
+}
+
+function seriesContent(event: Extract<NotificationEvent, { kind: "series" }>): EmailContent {
+  const { booking, status } = event;
+  const action = bookingAction(event.recipientRole, booking.bookingId);
+
+  switch (status) {
+    case "requested":
+      return {
+        subject: `New recurring booking request: ${booking.service}`,
+        lines: [
+          `${booking.customerName} would like ${booking.service} ${booking.seriesSummary.toLowerCase()}, starting ${when(booking)}.`,
+          "Accept or decline the whole series from your dashboard.",
+        ],
+        action,
+      };
+    case "accepted":
+      return {
+        subject: `Recurring booking confirmed: ${booking.service}`,
+        lines: [
+          `${booking.providerName} confirmed your ${booking.service} visits (${booking.seriesSummary}).`,
+        ],
+        action,
+      };
+    case "declined":
+      return {
+        subject: `Recurring booking declined: ${booking.service}`,
+        lines: [`${booking.providerName} declined your ${booking.service} series.`],
+        action,
+      };
+    case "cancelled":
+      return {
+        subject: `Recurring booking cancelled: ${booking.service}`,
+        lines: withReason(`The ${booking.service} series (${booking.seriesSummary}) was cancelled.`, booking),
+        action,
+      };
+    case "expired":
+      return event.recipientRole === "provider"
+        ? {
+            subject: `Recurring request expired: ${booking.service}`,
+            lines: [
+              `${booking.customerName}'s ${booking.service} series (${booking.seriesSummary}) expired because it wasn't answered in time.`,
+            ],
+            action,
+          }
+        : {
+            subject: `No reply yet: your recurring ${booking.service} request expired`,
+            lines: [
+              `${booking.providerName} didn't respond to your ${booking.service} series (${booking.seriesSummary}) in time.`,
+            ],
+            action,
+          };
+  }
+}
+
+function applicationContent(
+  event: Extract<NotificationEvent, { kind: "application" }>
+): EmailContent {
+  const action = { label: "View your application", path: "/provider/application" };
+
+  switch (event.status) {
+    case "approved":
+      return {
+        subject: "Your Prime Care provider application is approved",
+        lines: [
+          "Welcome aboard! Your application has been approved.",
+          "Set up your services, prices and working hours to start taking bookings.",
+        ],
+        action: { label: "Open your dashboard", path: "/provider/dashboard" },
+      };
+    case "needs_more_info":
+      return {
+        subject: "We need a little more information",
+        lines: [
+          "Our team reviewed your provider application and needs more information before approving it.",
+          "Check your application for details and update your documents.",
+        ],
+        action,
+      };
+    case "rejected":
+      return {
+        subject: "Update on your Prime Care provider application",
+        lines: ["After review, we aren't able to approve your provider application right now."],
+        action,
+      };
+  }
+}
+
+function messageContent(event: Extract<NotificationEvent, { kind: "message" }>): EmailContent {
+  const { booking, recipientRole } = event;
+  const sender = recipientRole === "provider" ? booking.customerName : booking.providerName;
+
+  return {
+    subject: `New message from ${sender}`,
+    lines: [`About ${booking.service} on ${when(booking)}: "${event.preview}"`],
+    action: bookingAction(recipientRole, booking.bookingId),
+  };
+}
+
+function reviewContent(event: Extract<NotificationEvent, { kind: "review" }>): EmailContent {
+  const { booking } = event;
+
+  return {
+    subject: `${booking.customerName} rated you ${event.rating}/5`,
+    lines: [
+      `The review is for ${booking.service} on ${when(booking)}.`,
+      ...(event.comment ? [`"${event.comment}"`] : []),
+    ],
+    action: bookingAction("provider", booking.bookingId),
+  };
+}
+
+function submittedContent(
+  event: Extract<NotificationEvent, { kind: "application_submitted" }>
+): EmailContent {
+  return {
+    subject: `New provider application: ${event.applicantName}`,
+    lines: [`${event.applicantName} applied to offer ${event.service} and is waiting for review.`],
+    action: { label: "Review application", path: `/admin#application-${event.applicationId}` },
+  };
+}
+
+function eventContent(event: NotificationEvent): EmailContent {
+  switch (event.kind) {
+    case "booking":
+      return bookingContent(event);
+    case "series":
+      return seriesContent(event);
+    case "message":
+      return messageContent(event);
+    case "review":
+      return reviewContent(event);
+    case "application":
+      return applicationContent(event);
+    case "application_submitted":
+      return submittedContent(event);
+  }
+}
+
+function greetingName(event: NotificationEvent): string {
+  if (event.kind === "application") return event.applicantName;
+  if (event.kind === "application_submitted") return "";
+  return event.recipientRole === "provider" ? event.booking.providerName : event.booking.customerName;
+}
+
+// The in-app feed shows the subject and first line, and links within the app.
+export function summarizeEvent(event: NotificationEvent): NotificationSummary {
+  const content = eventContent(event);
+  return { title: content.subject, body: content.lines[0] || "", link: content.action.path };
+}
+
+// Every email shares one plain layout so the text and HTML parts never drift.
+export function renderEmail(event: NotificationEvent, appUrl: string): RenderedEmail {
+  const content = eventContent(event);
+  const name = greetingName(event);
+  const greeting = name ? `Hi ${name},` : "Hi,";
+  const link = `${appUrl.replace(/\/$/, "")}${content.action.path}`;
+
+  const text = [
+    greeting,
+    "",
+    ...content.lines,
+    "",
+    `${content.action.label}: ${link}`,
+    "",
+    "You can change which emails you get in your notification settings.",
+  ].join("\n");
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...content.lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+    `<p><a href="${escapeHtml(link)}">${escapeHtml(content.action.label)}</a></p>`,
+    '<p style="color:#666;font-size:12px">You can change which emails you get in your notification settings.</p>',
+  ].join("\n");
+
+  return { subject: content.subject, text, html };
+}
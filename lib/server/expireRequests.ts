@@ -0,0 +1,161 @@
+import {
+  FieldValue,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type DocumentSnapshot,
+  type Transaction,
+} from "firebase-admin/firestore";
+import { assertTransition, toBookingStatus } from "@/lib/bookingStatus";
+import { AWAITING_PROVIDER_STATUSES, isResponseOverdue } from "@/lib/requestExpiry";
+import { adminDb } from "@/lib/server/firebaseAdmin";
+import {
+  notifyBookingChangeFromServer,
+  notifySeriesChangeFromServer,
+} from "@/lib/server/notify";
+
+const EXPIRY_REASON = "The provider didn't respond in time";
+
+// Mirrors applyTransition in lib/bookings.ts for the admin SDK: marks one
+// booking expired and frees the slots it holds. Every read has to be done
+// before calling, so the slot snapshots are passed in.
+function writeExpiry(
+  transaction: Transaction,
+  bookingRef: DocumentReference,
+  booking: DocumentData,
+  slots: DocumentSnapshot[],
+  now: Date
+) {
+  const from = toBookingStatus(booking.status);
+  assertTransition("system", from, "expired");
+
+  transaction.update(bookingRef, {
+    status: "expired",
+    expiredAt: FieldValue.serverTimestamp(),
+    statusHistory: FieldValue.arrayUnion({
+      from,
+      to: "expired",
+      actorUid: "system",
+      actorRole: "system",
+      at: Timestamp.fromDate(now),
+      reason: EXPIRY_REASON,
+    }),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  slots.forEach((slot) => {
+    if (slot.data()?.bookingId === bookingRef.id) {
+      transaction.delete(slot.ref);
+    }
+  });
+}
+
+// slotIds covers every slot a long job runs into; older bookings only have
+// slotId.
+async function readSlots(
+  transaction: Transaction,
+  booking: DocumentData
+): Promise<DocumentSnapshot[]> {
+  const slotIds: string[] = Array.isArray(booking.slotIds)
+    ? booking.slotIds.map(String)
+    : booking.slotId
+      ? [String(booking.slotId)]
+      : [];
+  const slotRefs = slotIds.map((id) => adminDb.collection("providerSlots").doc(id));
+  return slotRefs.length > 0 ? transaction.getAll(...slotRefs) : [];
+}
+
+// Returns false when the provider answered (or the deadline moved) since the
+// query ran.
+async function expireBooking(bookingId: string, now: Date): Promise<boolean> {
+  const bookingRef = adminDb.collection("bookings").doc(bookingId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const booking = (await transaction.get(bookingRef)).data();
+    if (!booking || !isResponseOverdue(booking, now)) return false;
+
+    writeExpiry(transaction, bookingRef, booking, await readSlots(transaction, booking), now);
+    return true;
+  });
+}
+
+// A series is answered as a whole, so it expires as a whole: the series and
+// every visit still waiting on the provider. Returns false when the provider
+// answered the series since the query ran.
+async function expireSeries(seriesId: string, now: Date): Promise<boolean> {
+  const seriesRef = adminDb.collection("bookingSeries").doc(seriesId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const series = (await transaction.get(seriesRef)).data();
+    if (!series || series.status !== "requested") return false;
+
+    const bookingRefs = (Array.isArray(series.bookingIds) ? series.bookingIds : []).map(
+      (id: unknown) => adminDb.collection("bookings").doc(String(id))
+    );
+    const bookingSnaps = bookingRefs.length > 0 ? await transaction.getAll(...bookingRefs) : [];
+    const overdue = bookingSnaps.filter((bookingSnap) => {
+      const booking = bookingSnap.data();
+      return booking && AWAITING_PROVIDER_STATUSES.includes(toBookingStatus(booking.status));
+    });
+    if (!overdue.some((bookingSnap) => isResponseOverdue(bookingSnap.data() || {}, now))) {
+      return false;
+    }
+    const slots = await Promise.all(
+      overdue.map((bookingSnap) => readSlots(transaction, bookingSnap.data() || {}))
+    );
+
+    transaction.update(seriesRef, {
+      status: "expired",
+      expiredAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    overdue.forEach((bookingSnap, index) => {
+      writeExpiry(transaction, bookingSnap.ref, bookingSnap.data() || {}, slots[index], now);
+    });
+    return true;
+  });
+}
+
+// Moves every overdue request to expired and tells both sides. Safe to run
+// as often as the scheduler likes.
+export async function expireOverdueRequests(appUrl: string, now: Date = new Date()) {
+  const pending = await adminDb
+    .collection("bookings")
+    .where("status", "in", AWAITING_PROVIDER_STATUSES)
+    .get();
+
+  let expired = 0;
+  let failed = 0;
+  const seenSeries = new Set<string>();
+  for (const docSnap of pending.docs) {
+    const booking = docSnap.data();
+    if (!isResponseOverdue(booking, now)) continue;
+
+    const seriesId = booking.seriesId ? String(booking.seriesId) : null;
+    if (seriesId) {
+      if (seenSeries.has(seriesId)) continue;
+      seenSeries.add(seriesId);
+    }
+    const label = seriesId ? `series ${seriesId}` : `booking ${docSnap.id}`;
+
+    try {
+      if (!(await (seriesId ? expireSeries(seriesId, now) : expireBooking(docSnap.id, now)))) {
+        continue;
+      }
+      expired += 1;
+    } catch (err) {
+      failed += 1;
+      console.error(`[expire] ${label} could not be expired`, err);
+      continue;
+    }
+
+    try {
+      await (seriesId
+        ? notifySeriesChangeFromServer(seriesId, appUrl)
+        : notifyBookingChangeFromServer(docSnap.id, appUrl));
+    } catch (err) {
+      console.error(`[expire] notifying about ${label} failed`, err);
+    }
+  }
+
+  return { checked: pending.size, expired, failed };
+}
@@ -0,0 +1,20 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+// FIREBASE_SERVICE_ACCOUNT holds the service account JSON. Without it the SDK
+// falls back to the host's default credentials (Cloud Run, emulators, gcloud).
+function credential() {
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault();
+}
+
+const adminApp = getApps().length
+  ? getApp()
+  : initializeApp({
+      credential: credential(),
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    });
+
+export const adminAuth = getAuth(adminApp);
+export const adminDb = getFirestore(adminApp);
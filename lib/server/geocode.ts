@@ -0,0 +1,107 @@
+import type { StructuredAddress } from "@/lib/geo";
+
+// Defaults to OpenStreetMap's Nominatim, which asks for an identifying user
+// agent and at most one request a second. Point GEOCODER_URL at a self-hosted
+// or commercial Nominatim-compatible endpoint for production traffic.
+const DEFAULT_GEOCODER_URL = "https://nominatim.openstreetmap.org/search";
+const DEFAULT_USER_AGENT = "PrimeCare/1.0 (bookings)";
+const RESULT_LIMIT = 5;
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+// Nominatim's policy allows one request a second from the whole app.
+const MIN_INTERVAL_MS = 1000;
+
+// Per server instance. Repeated searches for the same place, which most are,
+// never reach the geocoder.
+const cache = new Map<string, { results: StructuredAddress[]; expiresAt: number }>();
+let nextRequestAt = 0;
+
+type NominatimResult = {
+  lat?: string;
+  lon?: string;
+  display_name?: string;
+  address?: Record<string, string | undefined>;
+};
+
+function toAddress(result: NominatimResult): StructuredAddress | null {
+  const lat = Number(result.lat);
+  const lng = Number(result.lon);
+  if (!result.display_name || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+  const address = result.address || {};
+  return {
+    label: result.display_name,
+    suburb:
+      address.suburb ||
+      address.city_district ||
+      address.town ||
+      address.village ||
+      address.city ||
+      "",
+    postcode: address.postcode || "",
+    lat,
+    lng,
+  };
+}
+
+function cached(key: string): StructuredAddress[] | null {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  return entry.results;
+}
+
+function remember(key: string, results: StructuredAddress[]) {
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    // Maps keep insertion order, so the first key is the oldest.
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, { results, expiresAt: Date.now() + CACHE_TTL_MS });
+}
+
+// Spaces requests out rather than rejecting them, so a burst of searches is
+// slowed down instead of failing.
+async function waitForTurn() {
+  const now = Date.now();
+  const startAt = Math.max(now, nextRequestAt);
+  nextRequestAt = startAt + MIN_INTERVAL_MS;
+  if (startAt > now) {
+    await new Promise((resolve) => setTimeout(resolve, startAt - now));
+  }
+}
+
+export async function geocodeAddress(query: string): Promise<StructuredAddress[]> {
+  const key = query.trim().toLowerCase().replace(/\s+/g, " ");
+  const hit = cached(key);
+  if (hit) return hit;
+
+  await waitForTurn();
+  const url = new URL(process.env.GEOCODER_URL || DEFAULT_GEOCODER_URL);
+  url.searchParams.set("q", query);
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("addressdetails", "1");
+  url.searchParams.set("limit", String(RESULT_LIMIT));
+  if (process.env.GEOCODER_COUNTRIES) {
+    url.searchParams.set("countrycodes", process.env.GEOCODER_COUNTRIES);
+  }
+
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": process.env.GEOCODER_USER_AGENT || DEFAULT_USER_AGENT,
+      Accept: "application/json",
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Address lookup failed (${response.status}).`);
+  }
+
+  const body = (await response.json()) as NominatimResult[];
+  const results = body
+    .map(toAddress)
+    .filter((item): item is StructuredAddress => item !== null);
+  remember(key, results);
+  return results;
+}
@@ -0,0 +1,89 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type MailTransport = {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+};
+
+export type MailTransportKind = "smtp" | "file" | "console";
+
+const DEFAULT_FROM = "Prime Care <no-reply@primecare.local>";
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+function smtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST must be set to send email over SMTP.");
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      await transporter.sendMail({ from: mailFrom(), ...message });
+    },
+  };
+}
+
+// Writes each email as JSON so local runs and tests can assert on what would
+// have been sent.
+function fileTransport(): MailTransport {
+  const directory = process.env.MAIL_OUTBOX_DIR || ".mail-outbox";
+
+  return {
+    name: "file",
+    send: async (message) => {
+      await mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+      await writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ from: mailFrom(), ...message }, null, 2)
+      );
+    },
+  };
+}
+
+function consoleTransport(): MailTransport {
+  return {
+    name: "console",
+    send: async (message) => {
+      console.info(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    },
+  };
+}
+
+function toTransportKind(value: string | undefined): MailTransportKind {
+  if (value === "smtp" || value === "file" || value === "console") return value;
+  return process.env.NODE_ENV === "production" ? "smtp" : "console";
+}
+
+// MAIL_TRANSPORT picks the transport; production defaults to SMTP and
+// everything else to the console.
+export function createMailTransport(
+  kind: MailTransportKind = toTransportKind(process.env.MAIL_TRANSPORT)
+): MailTransport {
+  if (kind === "smtp") return smtpTransport();
+  if (kind === "file") return fileTransport();
+  return consoleTransport();
+}
@@ -0,0 +1,415 @@
+import { FieldValue, type DocumentData, type Transaction } from "firebase-admin/firestore";
+import { toBookingStatus, type BookingActorRole } from "@/lib/bookingStatus";
+import {
+  parseNotificationPreferences,
+  type NotificationTopic,
+} from "@/lib/notificationPreferences";
+import type { NotificationKind } from "@/lib/notifications";
+import {
+  renderEmail,
+  summarizeEvent,
+  type BookingEmailDetails,
+  type NotificationEvent,
+} from "@/lib/server/emailTemplates";
+import { adminAuth, adminDb } from "@/lib/server/firebaseAdmin";
+import { createMailTransport, type MailTransport } from "@/lib/server/mailTransport";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezones";
+
+// emailTopic is null for events that only go to the in-app feed.
+type Recipient = {
+  uid: string;
+  fallbackEmail?: string;
+  emailTopic: NotificationTopic | null;
+  event: NotificationEvent;
+};
+
+const APPLICATION_EMAIL_STATUSES = ["approved", "needs_more_info", "rejected"] as const;
+const SERIES_EMAIL_STATUSES = ["requested", "accepted", "declined", "cancelled", "expired"] as const;
+const MESSAGE_PREVIEW_LENGTH = 80;
+
+async function isAdmin(uid: string): Promise<boolean> {
+  const userSnap = await adminDb.collection("users").doc(uid).get();
+  return userSnap.exists && userSnap.data()?.role === "admin";
+}
+
+// A null caller is the server's own scheduled work, which is always allowed.
+async function assertAllowed(callerUid: string | null, participants: string[]) {
+  if (callerUid === null || participants.includes(callerUid)) return;
+  if (await isAdmin(callerUid)) return;
+  throw new Error("You are not allowed to send notifications for this record.");
+}
+
+function bookingDetails(data: DocumentData, bookingId: string, reason = ""): BookingEmailDetails {
+  return {
+    bookingId,
+    service: String(data.service || "your service"),
+    date: String(data.date || ""),
+    time: String(data.time || ""),
+    customerName: String(data.customerName || "The customer"),
+    providerName: String(data.providerName || "Your provider"),
+    reason,
+    quoteTotal: typeof data.quote?.total === "number" ? data.quote.total : null,
+    seriesSummary: String(data.seriesSummary || data.summary || ""),
+    broadcast: Boolean(data.broadcast),
+    startAt: data.startAt?.toDate?.() ?? null,
+    timeZone: String(data.timeZone || DEFAULT_TIME_ZONE),
+  };
+}
+
+function otherParties(actorRole: BookingActorRole): ("customer" | "provider")[] {
+  if (actorRole === "customer") return ["provider"];
+  if (actorRole === "provider") return ["customer"];
+  return ["customer", "provider"];
+}
+
+async function recipientEmail(recipient: Recipient): Promise<string | null> {
+  try {
+    const user = await adminAuth.getUser(recipient.uid);
+    return user.email || recipient.fallbackEmail || null;
+  } catch {
+    return recipient.fallbackEmail || null;
+  }
+}
+
+async function wantsEmail(uid: string, topic: NotificationTopic): Promise<boolean> {
+  const preferencesSnap = await adminDb.collection("notificationPreferences").doc(uid).get();
+  return parseNotificationPreferences(preferencesSnap.data()).email[topic];
+}
+
+// Every recipient gets an entry in their in-app feed. The entries are written
+// in the same transaction that marks the record as announced, so a marker is
+// never saved without the feed entries it stands for.
+function addToFeeds(transaction: Transaction, recipients: Recipient[]): Recipient[] {
+  recipients
+    .filter((recipient) => recipient.uid)
+    .forEach((recipient) => {
+      transaction.create(
+        adminDb.collection("users").doc(recipient.uid).collection("notifications").doc(),
+        {
+          kind: recipient.event.kind,
+          ...summarizeEvent(recipient.event),
+          read: false,
+          createdAt: FieldValue.serverTimestamp(),
+        }
+      );
+    });
+  return recipients;
+}
+
+// Email depends on each recipient's preferences and is best effort: the feed
+// entry is already saved, so a mail failure is logged rather than thrown.
+// Returns how many emails went out.
+async function sendEmails(recipients: Recipient[], appUrl: string): Promise<number> {
+  let transport: MailTransport | null = null;
+  let sent = 0;
+
+  for (const recipient of recipients) {
+    if (!recipient.uid || !recipient.emailTopic) continue;
+
+    try {
+      if (!(await wantsEmail(recipient.uid, recipient.emailTopic))) continue;
+
+      const to = await recipientEmail(recipient);
+      if (!to) continue;
+
+      // Created on first use, so a misconfigured transport only costs email.
+      transport ??= createMailTransport();
+      await transport.send({ to, ...renderEmail(recipient.event, appUrl) });
+      sent += 1;
+    } catch (err) {
+      // One bad address shouldn't stop the other party hearing about it.
+      console.error(`[notify] email to ${recipient.uid} failed`, err);
+    }
+  }
+
+  return sent;
+}
+
+// Notifies whoever didn't make the latest status change. The booking records
+// how many history entries have been announced, so repeat calls send nothing.
+async function bookingRecipients(
+  bookingId: string,
+  callerUid: string | null
+): Promise<Recipient[]> {
+  const bookingRef = adminDb.collection("bookings").doc(bookingId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    const booking = bookingSnap.data();
+    if (!booking) {
+      throw new Error("Booking not found.");
+    }
+    await assertAllowed(callerUid, [
+      booking.customerUid,
+      booking.providerUid,
+      ...(Array.isArray(booking.passedProviderUids) ? booking.passedProviderUids : []),
+    ]);
+
+    const history: DocumentData[] = Array.isArray(booking.statusHistory)
+      ? booking.statusHistory
+      : [];
+    if (history.length <= Number(booking.notifiedHistoryCount || 0)) return [];
+    transaction.update(bookingRef, { notifiedHistoryCount: history.length });
+
+    const latest = history[history.length - 1];
+    const from = latest.from ? toBookingStatus(latest.from) : null;
+    const to = toBookingStatus(latest.to);
+    // New series visits are announced once by the series notification instead.
+    if (booking.seriesId && from === null) return [];
+
+    const actorRole = latest.actorRole as BookingActorRole;
+    const details = bookingDetails(booking, bookingId, String(latest.reason || ""));
+
+    // An open request goes to every candidate; whoever accepts first gets it.
+    if (booking.broadcast && from === null) {
+      const candidates: string[] = Array.isArray(booking.candidateProviderUids)
+        ? booking.candidateProviderUids
+        : [];
+      return addToFeeds(
+        transaction,
+        candidates.map((uid) => ({
+          uid,
+          emailTopic: "newRequests",
+          event: {
+            kind: "booking",
+            recipientRole: "provider",
+            actorRole,
+            from,
+            to,
+            booking: { ...details, providerName: "" },
+          },
+        }))
+      );
+    }
+
+    return addToFeeds(
+      transaction,
+      otherParties(actorRole).map((recipientRole) => ({
+        uid: String(recipientRole === "provider" ? booking.providerUid : booking.customerUid),
+        fallbackEmail: recipientRole === "customer" ? booking.customerEmail : undefined,
+        emailTopic:
+          recipientRole === "provider" && from === null ? "newRequests" : "bookingUpdates",
+        event: { kind: "booking", recipientRole, actorRole, from, to, booking: details },
+      }))
+    );
+  });
+}
+
+async function seriesRecipients(
+  seriesId: string,
+  callerUid: string | null
+): Promise<Recipient[]> {
+  const seriesRef = adminDb.collection("bookingSeries").doc(seriesId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const seriesSnap = await transaction.get(seriesRef);
+    const series = seriesSnap.data();
+    if (!series) {
+      throw new Error("Booking series not found.");
+    }
+    await assertAllowed(callerUid, [series.customerUid, series.providerUid]);
+
+    const status = SERIES_EMAIL_STATUSES.find((item) => item === series.status);
+    if (!status || series.notifiedStatus === status) return [];
+    transaction.update(seriesRef, { notifiedStatus: status });
+
+    const firstBookingId = Array.isArray(series.bookingIds) ? String(series.bookingIds[0]) : "";
+    const details = bookingDetails(series, firstBookingId, String(series.cancellationReason || ""));
+    const roles: ("customer" | "provider")[] =
+      status === "requested"
+        ? ["provider"]
+        : status === "cancelled"
+          ? otherParties((series.cancelledBy as BookingActorRole) || "admin")
+          : status === "expired"
+            ? ["customer", "provider"]
+            : ["customer"];
+
+    return addToFeeds(
+      transaction,
+      roles.map((recipientRole) => ({
+        uid: String(recipientRole === "provider" ? series.providerUid : series.customerUid),
+        fallbackEmail: recipientRole === "customer" ? series.customerEmail : undefined,
+        emailTopic: status === "requested" ? "newRequests" : "bookingUpdates",
+        event: { kind: "series", recipientRole, status, booking: details },
+      }))
+    );
+  });
+}
+
+// Messages only go to the in-app feed; the thread itself is the email-free
+// channel both sides already watch.
+async function messageRecipients(bookingId: string, callerUid: string): Promise<Recipient[]> {
+  const bookingRef = adminDb.collection("bookings").doc(bookingId);
+  const bookingSnap = await bookingRef.get();
+  const booking = bookingSnap.data();
+  if (!booking) {
+    throw new Error("Booking not found.");
+  }
+
+  const latestSnap = await bookingRef
+    .collection("messages")
+    .orderBy("createdAt", "desc")
+    .limit(1)
+    .get();
+  const messageRef = latestSnap.docs[0]?.ref;
+  if (!messageRef) return [];
+
+  return adminDb.runTransaction(async (transaction) => {
+    const message = (await transaction.get(messageRef)).data();
+    if (!message || message.notified || message.senderUid !== callerUid) return [];
+    transaction.update(messageRef, { notified: true });
+
+    const recipientRole = message.senderRole === "provider" ? "customer" : "provider";
+    const text = String(message.text || "");
+    const preview =
+      text.length > MESSAGE_PREVIEW_LENGTH
+        ? `${text.slice(0, MESSAGE_PREVIEW_LENGTH)}…`
+        : text || "Sent an image";
+
+    return addToFeeds(transaction, [
+      {
+        uid: String(recipientRole === "provider" ? booking.providerUid : booking.customerUid),
+        emailTopic: null,
+        event: {
+          kind: "message",
+          recipientRole,
+          preview,
+          booking: bookingDetails(booking, bookingId),
+        },
+      },
+    ]);
+  });
+}
+
+async function reviewRecipients(bookingId: string, callerUid: string): Promise<Recipient[]> {
+  const bookingRef = adminDb.collection("bookings").doc(bookingId);
+  const reviewRef = adminDb.collection("reviews").doc(bookingId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const booking = (await transaction.get(bookingRef)).data();
+    if (!booking) {
+      throw new Error("Booking not found.");
+    }
+    if (booking.customerUid !== callerUid) {
+      throw new Error("Only the customer can announce their review.");
+    }
+    const review = (await transaction.get(reviewRef)).data();
+    if (!booking.customerRating || booking.notifiedReview) return [];
+    transaction.update(bookingRef, { notifiedReview: true });
+
+    return addToFeeds(transaction, [
+      {
+        uid: String(booking.providerUid),
+        emailTopic: null,
+        event: {
+          kind: "review",
+          recipientRole: "provider",
+          rating: Number(booking.customerRating),
+          comment: String(review?.comment || ""),
+          booking: bookingDetails(booking, bookingId),
+        },
+      },
+    ]);
+  });
+}
+
+// A new application alerts every admin; a reviewed one tells the applicant.
+async function applicationRecipients(
+  applicationId: string,
+  callerUid: string
+): Promise<Recipient[]> {
+  const applicationRef = adminDb.collection("providerApplications").doc(applicationId);
+  const callerIsAdmin = await isAdmin(callerUid);
+  const adminUids = callerIsAdmin
+    ? []
+    : (await adminDb.collection("users").where("role", "==", "admin").get()).docs.map(
+        (docSnap) => docSnap.id
+      );
+
+  return adminDb.runTransaction(async (transaction) => {
+    const applicationSnap = await transaction.get(applicationRef);
+    const application = applicationSnap.data();
+    if (!application) {
+      throw new Error("Application not found.");
+    }
+
+    if (!callerIsAdmin) {
+      if (application.providerUid !== callerUid) {
+        throw new Error("Only admins can send application updates.");
+      }
+      if (application.status !== "manual_review_pending" || application.notifiedStatus) {
+        return [];
+      }
+      transaction.update(applicationRef, { notifiedStatus: application.status });
+
+      return addToFeeds(
+        transaction,
+        adminUids.map((uid) => ({
+          uid,
+          emailTopic: null,
+          event: {
+            kind: "application_submitted",
+            applicationId,
+            applicantName: String(application.name || "A provider"),
+            service: String(application.service || "services"),
+          },
+        }))
+      );
+    }
+
+    const status = APPLICATION_EMAIL_STATUSES.find((item) => item === application.status);
+    if (!status || application.notifiedStatus === status) return [];
+    transaction.update(applicationRef, { notifiedStatus: status });
+
+    return addToFeeds(transaction, [
+      {
+        uid: String(application.providerUid || applicationId),
+        fallbackEmail: application.email,
+        emailTopic: "applicationUpdates",
+        event: {
+          kind: "application",
+          status,
+          applicantName: String(application.name || ""),
+        },
+      },
+    ]);
+  });
+}
+
+// Works out who to notify from the record's current state rather than
+// trusting the caller, writes the feed entries with the record's marker, then
+// sends email.
+export async function notifyChange(
+  kind: NotificationKind,
+  id: string,
+  callerUid: string,
+  appUrl: string
+): Promise<number> {
+  const recipientsFor: Record<
+    NotificationKind,
+    (id: string, callerUid: string) => Promise<Recipient[]>
+  > = {
+    booking: bookingRecipients,
+    series: seriesRecipients,
+    message: messageRecipients,
+    review: reviewRecipients,
+    application: applicationRecipients,
+  };
+
+  return sendEmails(await recipientsFor[kind](id, callerUid), appUrl);
+}
+
+// For status changes made by the server itself, such as expiring requests.
+export async function notifyBookingChangeFromServer(
+  bookingId: string,
+  appUrl: string
+): Promise<number> {
+  return sendEmails(await bookingRecipients(bookingId, null), appUrl);
+}
+
+export async function notifySeriesChangeFromServer(
+  seriesId: string,
+  appUrl: string
+): Promise<number> {
+  return sendEmails(await seriesRecipients(seriesId, null), appUrl);
+}
@@ -0,0 +1,162 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  type DocumentData,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+export type ServiceCatalogEntry = {
+  slug: string;
+  title: string;
+  description: string;
+  icon: string;
+  tag: string;
+  typicalPricing: string;
+  highlights: string[];
+  requiredCertifications: string[];
+  // Jobs that are hard to price up front default to the quote-request path.
+  quoteRecommended: boolean;
+  active: boolean;
+  sortOrder: number;
+};
+
+export const SERVICE_CATALOG_COLLECTION = "serviceCatalog";
+
+// Used until an admin publishes the catalog to Firestore, and as the seed for it.
+export const defaultServiceCatalog: ServiceCatalogEntry[] = [
+  {
+    slug: "home-cleaning",
+    title: "Home Cleaning",
+    description: "Deep cleans, recurring upkeep, move-in or move-out refreshes.",
+    icon: "🧽",
+    tag: "From 2 hrs",
+    typicalPricing: "From $35/hr, 2 hour minimum",
+    highlights: ["Recurring weekly plans", "Move-in and move-out cleans", "Eco supplies on request"],
+    requiredCertifications: [],
+    quoteRecommended: false,
+    active: true,
+    sortOrder: 0,
+  },
+  {
+    slug: "plumbing-repairs",
+    title: "Plumbing & Repairs",
+    description: "Leaks, installations, water heaters, and urgent fixes.",
+    icon: "🔧",
+    tag: "Emergency-ready",
+    typicalPricing: "$60 call-out, then from $55/hr",
+    highlights: ["Leak detection and repair", "Geyser and water heater work", "Same-day emergency slots"],
+    requiredCertifications: ["Plumbing trade certificate"],
+    quoteRecommended: true,
+    active: true,
+    sortOrder: 1,
+  },
+  {
+    slug: "electrical-work",
+    title: "Electrical Work",
+    description: "Lighting, outlets, rewiring, and safety inspections.",
+    icon: "💡",
+    tag: "Licensed pros",
+    typicalPricing: "$60 call-out, then from $65/hr",
+    highlights: ["Certified electricians", "Compliance certificates", "Fault finding"],
+    requiredCertifications: ["Electrician license"],
+    quoteRecommended: true,
+    active: true,
+    sortOrder: 2,
+  },
+  {
+    slug: "caregiving",
+    title: "Caregiving",
+    description: "Trusted support for seniors, kids, and daily routines.",
+    icon: "🤝",
+    tag: "Background-checked",
+    typicalPricing: "From $25/hr, 3 hour minimum",
+    highlights: ["Elderly companionship", "Childcare and school runs", "Recurring schedules"],
+    requiredCertifications: ["First aid certificate"],
+    quoteRecommended: false,
+    active: true,
+    sortOrder: 3,
+  },
+  {
+    slug: "handyman",
+    title: "Handyman",
+    description: "Assembly, mounting, repairs, and small renovations.",
+    icon: "🔨",
+    tag: "Same-day slots",
+    typicalPricing: "From $45/hr, 1 hour minimum",
+    highlights: ["Furniture assembly", "TV and shelf mounting", "Small repairs and touch-ups"],
+    requiredCertifications: [],
+    quoteRecommended: true,
+    active: true,
+    sortOrder: 4,
+  },
+  {
+    slug: "outdoor-care",
+    title: "Outdoor Care",
+    description: "Gardening, lawn service, and seasonal maintenance.",
+    icon: "🌿",
+    tag: "Weekly plans",
+    typicalPricing: "From $30/hr",
+    highlights: ["Lawn mowing and edging", "Hedge trimming", "Seasonal garden clean-ups"],
+    requiredCertifications: [],
+    quoteRecommended: false,
+    active: true,
+    sortOrder: 5,
+  },
+];
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+export function parseServiceCatalogEntry(slug: string, data: DocumentData): ServiceCatalogEntry {
+  const sortOrder = Number(data.sortOrder);
+  return {
+    slug,
+    title: String(data.title || slug),
+    description: String(data.description || ""),
+    icon: String(data.icon || ""),
+    tag: String(data.tag || ""),
+    typicalPricing: String(data.typicalPricing || ""),
+    highlights: toStringList(data.highlights),
+    requiredCertifications: toStringList(data.requiredCertifications),
+    quoteRecommended: Boolean(data.quoteRecommended),
+    active: data.active !== false,
+    sortOrder: Number.isFinite(sortOrder) ? sortOrder : 0,
+  };
+}
+
+export function slugifyServiceTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/&/g, " ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export async function loadServiceCatalog(
+  options: { includeInactive?: boolean } = {}
+): Promise<ServiceCatalogEntry[]> {
+  const snapshot = await getDocs(collection(db, SERVICE_CATALOG_COLLECTION));
+  const entries = snapshot.empty
+    ? defaultServiceCatalog
+    : snapshot.docs.map((docSnap) => parseServiceCatalogEntry(docSnap.id, docSnap.data()));
+
+  return entries
+    .filter((entry) => options.includeInactive || entry.active)
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+export async function loadServiceBySlug(slug: string): Promise<ServiceCatalogEntry | null> {
+  const snapshot = await getDoc(doc(db, SERVICE_CATALOG_COLLECTION, slug));
+  if (snapshot.exists()) {
+    const entry = parseServiceCatalogEntry(snapshot.id, snapshot.data());
+    return entry.active ? entry : null;
+  }
+
+  const catalog = await loadServiceCatalog();
+  return catalog.find((entry) => entry.slug === slug) || null;
+}
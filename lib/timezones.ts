@@ -0,0 +1,158 @@
+// Time zone helpers shared by the browser, the notification mailer and the
+// calendar feed, so this file must not import the Firebase SDKs.
+
+// Anything with toDate() — client and admin Firestore Timestamps both qualify.
+export type InstantLike = { toDate: () => Date };
+
+export type ZonedBooking = {
+  date?: string;
+  time?: string;
+  startAt?: InstantLike | Date | null;
+  timeZone?: string;
+};
+
+function readDefaultTimeZone(): string {
+  const value = process.env.NEXT_PUBLIC_DEFAULT_TIME_ZONE;
+  return value && isValidTimeZone(value) ? value : "UTC";
+}
+
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Used for providers who haven't picked a zone yet.
+export const DEFAULT_TIME_ZONE = readDefaultTimeZone();
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+export function timeZoneOptions(): string[] {
+  return typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [DEFAULT_TIME_ZONE];
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: Date, timeZone: string): Record<string, number> {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant.
+function offsetMs(instant: Date, timeZone: string): number {
+  const parts = zonedParts(instant, timeZone);
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock date and time at the service location into the
+// instant it happens. Times skipped by a DST jump resolve to the later offset.
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const firstOffset = offsetMs(new Date(guess), timeZone);
+  const candidate = guess - firstOffset;
+  const secondOffset = offsetMs(new Date(candidate), timeZone);
+  return new Date(secondOffset === firstOffset ? candidate : guess - secondOffset);
+}
+
+// The calendar date (YYYY-MM-DD) it currently is in the zone.
+export function dateKeyInTimeZone(instant: Date, timeZone: string): string {
+  const parts = zonedParts(instant, timeZone);
+  return [
+    parts.year,
+    String(parts.month).padStart(2, "0"),
+    String(parts.day).padStart(2, "0"),
+  ].join("-");
+}
+
+export function timeZoneAbbreviation(timeZone: string, at: Date = new Date()): string {
+  const part = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(at)
+    .find((item) => item.type === "timeZoneName");
+  return part?.value || timeZone;
+}
+
+export function timeZoneLabel(timeZone: string, at: Date = new Date()): string {
+  return `${timeZoneAbbreviation(timeZone, at)} (${timeZone.replace(/_/g, " ")})`;
+}
+
+// Always includes the zone so nobody has to guess whose clock a time is on.
+export function formatInTimeZone(
+  instant: Date,
+  timeZone: string,
+  options: { dateOnly?: boolean } = {}
+): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    ...(options.dateOnly ? {} : { hour: "numeric", minute: "2-digit", timeZoneName: "short" }),
+  }).format(instant);
+}
+
+export function bookingStartInstant(booking: ZonedBooking): Date | null {
+  if (booking.startAt) {
+    return booking.startAt instanceof Date ? booking.startAt : booking.startAt.toDate();
+  }
+  if (!booking.date || !booking.time) return null;
+  return zonedDateTimeToUtc(booking.date, booking.time, booking.timeZone || DEFAULT_TIME_ZONE);
+}
+
+// Bookings render on the service location's clock, whoever is looking.
+export function formatBookingTime(booking: ZonedBooking): string {
+  const startsAt = bookingStartInstant(booking);
+  if (!startsAt) return "-";
+  return formatInTimeZone(startsAt, booking.timeZone || DEFAULT_TIME_ZONE);
+}
+
+export function formatBookingDay(booking: ZonedBooking): string {
+  const startsAt = bookingStartInstant(booking);
+  if (!startsAt) return "";
+  return formatInTimeZone(startsAt, booking.timeZone || DEFAULT_TIME_ZONE, { dateOnly: true });
+}
+
+// Audit timestamps (created, reviewed, sent) render on the viewer's clock.
+export function formatTimestampLocal(value?: InstantLike | null): string {
+  if (!value) return "-";
+  try {
+    return formatInTimeZone(value.toDate(), browserTimeZone());
+  } catch {
+    return "-";
+  }
+}
@@ -0,0 +1,79 @@
+import { deleteObject, getDownloadURL, ref, uploadBytes } from "firebase/storage";
+import { storage } from "@/lib/firebase";
+
+export type UploadedDocument = {
+  name: string;
+  url: string;
+  path: string;
+  contentType: string;
+  size: number;
+};
+
+// Files kept without a download URL so every read goes through storage.rules.
+export type PrivateFile = Omit<UploadedDocument, "url">;
+
+export const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+export const ACCEPTED_DOC_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "application/pdf",
+];
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const MAX_BOOKING_PHOTOS = 5;
+
+// Returns a message for the first problem with the file, or null when it can
+// be uploaded.
+export function validateUpload(
+  file: File,
+  allowedTypes: string[],
+  fieldLabel: string
+): string | null {
+  if (file.size > MAX_FILE_SIZE_BYTES) {
+    return `${fieldLabel} must be 10MB or less.`;
+  }
+
+  if (file.type && !allowedTypes.includes(file.type)) {
+    const kinds = allowedTypes.includes("application/pdf")
+      ? "a PDF, JPG, PNG, or WEBP file"
+      : "a JPG, PNG, or WEBP image";
+    return `${fieldLabel} must be ${kinds}.`;
+  }
+
+  return null;
+}
+
+export async function uploadPrivateFile(folder: string, file: File): Promise<PrivateFile> {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const path = `${folder}/${uniqueId}-${safeName}`;
+
+  await uploadBytes(ref(storage, path), file, {
+    contentType: file.type || "application/octet-stream",
+  });
+
+  return {
+    name: file.name,
+    path,
+    contentType: file.type || "application/octet-stream",
+    size: file.size,
+  };
+}
+
+// Cleans up files whose record was never saved. Best effort: a file that
+// can't be removed is left behind rather than hiding the original error.
+export async function deletePrivateFiles(files: PrivateFile[]) {
+  await Promise.allSettled(files.map((file) => deleteObject(ref(storage, file.path))));
+}
+
+export async function uploadFile(folder: string, file: File): Promise<UploadedDocument> {
+  const uploaded = await uploadPrivateFile(folder, file);
+  const url = await getDownloadURL(ref(storage, uploaded.path));
+  return { ...uploaded, url };
+}
+
+// Resolving the URL is the access check: it fails for anyone storage.rules
+// doesn't let read the file.
+export function resolveFileUrl(path: string): Promise<string> {
+  return getDownloadURL(ref(storage, path));
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Notification links point at `#booking-<id>` style anchors. Lists load after
+// the first paint, so the browser's own jump to the anchor misses; this
+// scrolls once `ready` is true and again on in-page hash changes. Client-side
+// navigation doesn't fire hashchange, so NotificationBell dispatches one for
+// links into the page that is already open.
+export function useHashTarget(ready: boolean, onTarget?: (targetId: string) => void) {
+  useEffect(() => {
+    if (!ready) return;
+
+    const scrollToHash = () => {
+      const targetId = decodeURIComponent(window.location.hash.slice(1));
+      if (!targetId) return;
+      onTarget?.(targetId);
+      window.requestAnimationFrame(() => {
+        document.getElementById(targetId)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      });
+    };
+
+    scrollToHash();
+    window.addEventListener("hashchange", scrollToHash);
+    return () => window.removeEventListener("hashchange", scrollToHash);
+  }, [ready, onTarget]);
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  defaultServiceCatalog,
+  loadServiceCatalog,
+  type ServiceCatalogEntry,
+} from "@/lib/services";
+
+export function useServiceCatalog() {
+  const [services, setServices] = useState<ServiceCatalogEntry[]>(
+    defaultServiceCatalog.filter((entry) => entry.active)
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadServiceCatalog()
+      .then((entries) => {
+        if (!cancelled) setServices(entries);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unable to load services.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { services, loading, error };
+}